@@ -0,0 +1,303 @@
+import { DAY_MS, toEpochDay } from "./calendar-math";
+import { PlainDate, PlainDateTime, parsePlainDate } from "./plain";
+import type { TimeZone } from "./index";
+
+/**
+ * Returns the holidays of one year
+ */
+export type HolidayProvider = (year: number) => Iterable<PlainDate | string>;
+
+/**
+ * Options for a business calendar
+ */
+export interface BusinessCalendarOptions {
+  /** Days off every week (0 = Sunday ... 6 = Saturday, default: [0, 6]) */
+  weekend?: number[];
+  /** Holiday dates ("2024-12-25" or PlainDate), or a provider per year */
+  holidays?: Iterable<PlainDate | string> | HolidayProvider;
+  /** Timezone instants are read in (default: "UTC") */
+  timeZone?: TimeZone;
+}
+
+/**
+ * Inputs accepted by business calendar methods; instants are read in the
+ * calendar's timezone
+ */
+export type BusinessDayInput = Date | string | number | PlainDate;
+
+/**
+ * Counts days from 1970-01-01 to a plain date
+ */
+function dateToEpochDay({ year, month, day }: PlainDate): number {
+  return toEpochDay(year, month, day);
+}
+
+function fromEpochDay(day: number): PlainDate {
+  return PlainDate.fromInstant(day * DAY_MS, "UTC");
+}
+
+/**
+ * Gets the day of the week of an epoch day (1970-01-01 was a Thursday)
+ */
+function weekdayOf(day: number): number {
+  return (((day + 4) % 7) + 7) % 7;
+}
+
+function yearOf(day: number): number {
+  return new Date(day * DAY_MS).getUTCFullYear();
+}
+
+/**
+ * Counts sorted values in [from, to)
+ */
+function countInRange(sorted: number[], from: number, to: number): number {
+  const lowerBound = (value: number) => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sorted[mid] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  };
+  return lowerBound(to) - lowerBound(from);
+}
+
+/**
+ * Working-day calendar with configurable weekend days and holidays. Counting
+ * jumps whole weeks at a time and looks holidays up per year, so spans of
+ * many years cost about as much as a few weeks.
+ */
+export class BusinessCalendar {
+  /** Days off every week (0 = Sunday ... 6 = Saturday) */
+  readonly weekend: readonly number[];
+  readonly timeZone: TimeZone;
+  private readonly provider: HolidayProvider;
+  private readonly providedCache = new Map<number, PlainDate[]>();
+  private readonly holidayCache = new Map<number, number[]>();
+  private readonly daysPerWeek: number;
+
+  /**
+   * Creates a business calendar; prefer the `businessCalendar` factory
+   * @param options - Weekend days, holidays and timezone
+   * @throws RangeError if every day of the week is a weekend day
+   */
+  constructor(options: BusinessCalendarOptions = {}) {
+    const { weekend = [0, 6], holidays = [], timeZone = "UTC" } = options;
+    if (weekend.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new RangeError(`Invalid weekend days: ${weekend.join(", ")}`);
+    }
+    this.weekend = Object.freeze([...new Set(weekend)].sort());
+    this.daysPerWeek = 7 - this.weekend.length;
+    if (this.daysPerWeek === 0) {
+      throw new RangeError("A business calendar needs at least one workday");
+    }
+    this.timeZone = timeZone;
+
+    if (typeof holidays === "function") {
+      this.provider = holidays;
+    } else {
+      const byYear = new Map<number, PlainDate[]>();
+      for (const holiday of holidays) {
+        const date = toPlainDate(holiday);
+        byYear.set(date.year, [...(byYear.get(date.year) ?? []), date]);
+      }
+      this.provider = (year) => byYear.get(year) ?? [];
+    }
+    Object.freeze(this);
+  }
+
+  /**
+   * Checks if a date is neither a weekend day nor a holiday
+   * @param date - Date to check
+   * @returns True for a business day, false for invalid dates
+   */
+  isBusinessDay(date: BusinessDayInput): boolean {
+    const day = this.toDay(date);
+    return !isNaN(day) && this.isWorkday(day);
+  }
+
+  /**
+   * Moves by a number of business days. Dates keep their wall-clock time in
+   * the calendar's timezone; adding 0 returns the date unchanged.
+   * @param date - Start date
+   * @param n - Business days to add (negative to go back)
+   * @returns The date n business days away, as a PlainDate for PlainDate input
+   * @throws RangeError for a PlainDate and a non-finite n
+   */
+  addBusinessDays(date: PlainDate, n: number): PlainDate;
+  addBusinessDays(date: Date | string | number, n: number): Date;
+  addBusinessDays(date: BusinessDayInput, n: number): PlainDate | Date;
+  addBusinessDays(date: BusinessDayInput, n: number): PlainDate | Date {
+    if (date instanceof PlainDate) {
+      return fromEpochDay(this.addDays(dateToEpochDay(date), n));
+    }
+    const d = new Date(date);
+    if (isNaN(d.getTime()) || !isFinite(n)) {
+      return new Date(NaN);
+    }
+    // Keep the wall-clock time in the calendar's timezone
+    const local = PlainDateTime.fromInstant(d, this.timeZone);
+    return fromEpochDay(this.addDays(dateToEpochDay(local.toPlainDate()), n))
+      .at(local.toPlainTime())
+      .toInstant(this.timeZone);
+  }
+
+  /**
+   * Moves back by a number of business days
+   * @param date - Start date
+   * @param n - Business days to subtract
+   * @returns The date n business days earlier
+   */
+  subtractBusinessDays(date: PlainDate, n: number): PlainDate;
+  subtractBusinessDays(date: Date | string | number, n: number): Date;
+  subtractBusinessDays(date: BusinessDayInput, n: number): PlainDate | Date {
+    return this.addBusinessDays(date, -n);
+  }
+
+  /**
+   * Gets the first business day after a date
+   * @param date - Start date
+   * @returns The next business day
+   */
+  nextBusinessDay(date: PlainDate): PlainDate;
+  nextBusinessDay(date: Date | string | number): Date;
+  nextBusinessDay(date: BusinessDayInput): PlainDate | Date {
+    return this.addBusinessDays(date, 1);
+  }
+
+  /**
+   * Counts business days after date2 up to and including date1, so
+   * `addBusinessDays(date2, diffBusinessDays(date1, date2))` lands on date1
+   * when date1 is a business day
+   * @param date1 - First date
+   * @param date2 - Second date
+   * @returns Business days between the dates, negative if date1 is earlier
+   */
+  diffBusinessDays(date1: BusinessDayInput, date2: BusinessDayInput): number {
+    const day1 = this.toDay(date1);
+    const day2 = this.toDay(date2);
+    return day1 >= day2
+      ? this.countDays(day2 + 1, day1 + 1)
+      : -this.countDays(day1 + 1, day2 + 1);
+  }
+
+  private isWorkday(day: number): boolean {
+    return (
+      !this.weekend.includes(weekdayOf(day)) &&
+      countInRange(this.holidaysOf(yearOf(day)), day, day + 1) === 0
+    );
+  }
+
+  /**
+   * Sorted epoch days of a year's holidays that fall on workdays. The
+   * neighbouring years are asked too, since a holiday observed on another
+   * day can cross New Year.
+   */
+  private holidaysOf(year: number): number[] {
+    let days = this.holidayCache.get(year);
+    if (!days) {
+      const dates = [year - 1, year, year + 1]
+        .flatMap((y) => this.provided(y))
+        .filter((date) => date.year === year);
+      days = [...new Set(dates.map(dateToEpochDay))]
+        .filter((day) => !this.weekend.includes(weekdayOf(day)))
+        .sort((a, b) => a - b);
+      this.holidayCache.set(year, days);
+    }
+    return days;
+  }
+
+  private provided(year: number): PlainDate[] {
+    let dates = this.providedCache.get(year);
+    if (!dates) {
+      dates = [...this.provider(year)].map(toPlainDate);
+      this.providedCache.set(year, dates);
+    }
+    return dates;
+  }
+
+  /**
+   * Counts business days in [from, to)
+   */
+  private countDays(from: number, to: number): number {
+    if (isNaN(from) || isNaN(to)) {
+      return NaN;
+    }
+    if (to <= from) {
+      return 0;
+    }
+    const weeks = Math.floor((to - from) / 7);
+    let count = weeks * this.daysPerWeek;
+    for (let day = from + weeks * 7; day < to; day++) {
+      if (!this.weekend.includes(weekdayOf(day))) {
+        count++;
+      }
+    }
+    for (let year = yearOf(from); year <= yearOf(to - 1); year++) {
+      count -= countInRange(this.holidaysOf(year), from, to);
+    }
+    return count;
+  }
+
+  private addDays(start: number, n: number): number {
+    if (!isFinite(n)) {
+      return NaN;
+    }
+    const step = Math.sign(n);
+    let day = start;
+    let remaining = Math.abs(Math.trunc(n));
+    while (remaining > 0) {
+      if (remaining > this.daysPerWeek) {
+        // Whole weeks hold at most daysPerWeek business days, so this never
+        // overshoots; holidays in the jump are made up on the next pass
+        const next =
+          day + step * Math.floor((remaining - 1) / this.daysPerWeek) * 7;
+        remaining -=
+          step > 0
+            ? this.countDays(day + 1, next + 1)
+            : this.countDays(next, day);
+        day = next;
+      } else {
+        day += step;
+        if (this.isWorkday(day)) {
+          remaining--;
+        }
+      }
+    }
+    return day;
+  }
+
+  /**
+   * Reads the calendar day of an input in the calendar's timezone
+   */
+  private toDay(date: BusinessDayInput): number {
+    if (date instanceof PlainDate) {
+      return dateToEpochDay(date);
+    }
+    const d = new Date(date);
+    return isNaN(d.getTime())
+      ? NaN
+      : dateToEpochDay(PlainDate.fromInstant(d, this.timeZone));
+  }
+}
+
+function toPlainDate(value: PlainDate | string): PlainDate {
+  return value instanceof PlainDate ? value : parsePlainDate(value);
+}
+
+/**
+ * Creates a business calendar
+ * @param options - Weekend days, holidays and timezone
+ * @returns A new BusinessCalendar
+ * @throws RangeError if every day of the week is a weekend day
+ */
+export function businessCalendar(
+  options: BusinessCalendarOptions = {}
+): BusinessCalendar {
+  return new BusinessCalendar(options);
+}
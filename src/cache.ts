@@ -0,0 +1,119 @@
+import type { Locale } from "./index";
+
+/**
+ * Map that keeps its most recently used entries, dropping the least recently
+ * used one once it holds `capacity` entries
+ */
+export class LruCache<K, V> {
+  /** Most entries kept at once */
+  readonly capacity: number;
+  private readonly entries = new Map<K, V>();
+
+  /**
+   * Creates an empty cache
+   * @param capacity - Most entries kept at once
+   * @throws RangeError if capacity is not a positive integer
+   */
+  constructor(capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new RangeError(`Invalid capacity: ${capacity}`);
+    }
+    this.capacity = capacity;
+  }
+
+  /** Number of cached entries */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Gets the entry for a key, creating and caching it on a miss
+   * @param key - Cache key
+   * @param create - Builds the entry; nothing is cached if it throws
+   * @returns The cached or new entry
+   */
+  get(key: K, create: () => V): V {
+    if (this.entries.has(key)) {
+      const value = this.entries.get(key) as V;
+      // Maps iterate in insertion order, so re-inserting marks it as recent
+      this.entries.delete(key);
+      this.entries.set(key, value);
+      return value;
+    }
+    const value = create();
+    this.entries.set(key, value);
+    if (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value as K);
+    }
+    return value;
+  }
+
+  /**
+   * Removes every entry
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Every cache holding `Intl` objects or data read from them
+ */
+const intlCaches: LruCache<unknown, unknown>[] = [];
+
+/**
+ * Creates a cache for `Intl` objects or data read from them, emptied by
+ * `clearIntlCache`
+ * @param capacity - Most entries kept at once
+ * @returns Empty cache
+ */
+export function createIntlCache<K, V>(capacity: number): LruCache<K, V> {
+  const cache = new LruCache<K, V>(capacity);
+  intlCaches.push(cache as LruCache<unknown, unknown>);
+  return cache;
+}
+
+/**
+ * Building an `Intl` formatter costs far more than using one, so formatters
+ * are shared by every call with the same locale and options
+ */
+const dateTimeFormats = createIntlCache<string, Intl.DateTimeFormat>(256);
+const pluralRules = createIntlCache<string, Intl.PluralRules>(32);
+
+/**
+ * Gets a shared `Intl.DateTimeFormat`
+ * @param locale - Locale tag
+ * @param options - Formatter options, including the timezone
+ * @returns Cached formatter
+ * @throws RangeError for an invalid locale, timezone or option
+ */
+export function getDateTimeFormat(
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions
+): Intl.DateTimeFormat {
+  return dateTimeFormats.get(
+    `${locale}|${JSON.stringify(options)}`,
+    () => new Intl.DateTimeFormat(locale, options)
+  );
+}
+
+/**
+ * Gets shared ordinal plural rules
+ * @param locale - Locale tag
+ * @returns Cached plural rules
+ * @throws RangeError for an invalid locale
+ */
+export function getOrdinalRules(locale: Locale): Intl.PluralRules {
+  return pluralRules.get(
+    locale,
+    () => new Intl.PluralRules(locale, { type: "ordinal" })
+  );
+}
+
+/**
+ * Empties every cache made by `createIntlCache`, for benchmarks of the
+ * uncached path
+ */
+export function clearIntlCache(): void {
+  intlCaches.forEach((cache) => cache.clear());
+}
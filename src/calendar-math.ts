@@ -0,0 +1,22 @@
+/**
+ * Milliseconds in a UTC day
+ */
+export const DAY_MS = 86_400_000;
+
+/**
+ * Counts days since 1970-01-01 (month is 1-based and may overflow)
+ */
+export function toEpochDay(year: number, month: number, day: number): number {
+  const d = new Date(0);
+  d.setUTCFullYear(year, month - 1, day);
+  return Math.round(d.getTime() / DAY_MS);
+}
+
+/**
+ * Gets the number of days in a month (month is 1-based)
+ */
+export function daysInMonth(year: number, month: number): number {
+  const d = new Date(0);
+  d.setUTCFullYear(year, month, 0);
+  return d.getUTCDate();
+}
@@ -0,0 +1,554 @@
+import { utcToZonedTime, zonedTimeToUtc } from "./index";
+import { DAY_MS, daysInMonth, toEpochDay } from "./calendar-math";
+import type { TimeZone } from "./index";
+
+/**
+ * Options for a cron schedule
+ */
+export interface CronOptions {
+  /** Timezone the expression's wall-clock times are read in (default: "UTC") */
+  timeZone?: TimeZone;
+}
+
+/**
+ * Days searched for a fire time before giving up (about 28 years), so rare
+ * schedules like "0 0 29 2 *" are found across the 8-year gap around 2100
+ * and schedules that never fire, like "0 0 30 2 *", terminate
+ */
+const MAX_SEARCH_DAYS = 28 * 366;
+
+/**
+ * Longest span a DST change can repeat or skip
+ */
+const MAX_SHIFT_MS = 3 * 3_600_000;
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names for min, min + 1, ... */
+  names?: string[];
+}
+
+const SECOND: FieldSpec = { name: "second", min: 0, max: 59 };
+const MINUTE: FieldSpec = { name: "minute", min: 0, max: 59 };
+const HOUR: FieldSpec = { name: "hour", min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: "day-of-month", min: 1, max: 31 };
+const MONTH: FieldSpec = {
+  name: "month",
+  min: 1,
+  max: 12,
+  names: MONTH_NAMES,
+};
+// 7 is accepted as Sunday and folded to 0
+const DAY_OF_WEEK: FieldSpec = {
+  name: "day-of-week",
+  min: 0,
+  max: 7,
+  names: WEEKDAY_NAMES,
+};
+
+/**
+ * Day-of-month entries beyond plain values
+ */
+type DayOfMonthRule =
+  | { kind: "last"; offset: number }
+  | { kind: "lastWeekday" }
+  | { kind: "nearestWeekday"; day: number };
+
+/**
+ * Day-of-week entries beyond plain values
+ */
+type DayOfWeekRule =
+  | { kind: "last"; weekday: number }
+  | { kind: "nth"; weekday: number; nth: number };
+
+interface DayField<Rule> {
+  values: Set<number>;
+  rules: Rule[];
+  /** False for "*" and "?", which leave the choice to the other day field */
+  restricted: boolean;
+}
+
+/**
+ * Gets the day of the week of a date (0 = Sunday)
+ */
+function weekdayOf(year: number, month: number, day: number): number {
+  return (((toEpochDay(year, month, day) + 4) % 7) + 7) % 7;
+}
+
+/**
+ * Finds the weekday closest to a day without leaving the month, as in "15W"
+ */
+function nearestWeekday(year: number, month: number, day: number): number {
+  const last = daysInMonth(year, month);
+  const target = Math.min(day, last);
+  const weekday = weekdayOf(year, month, target);
+  if (weekday === 6) {
+    return target === 1 ? 3 : target - 1;
+  }
+  if (weekday === 0) {
+    return target === last ? target - 2 : target + 1;
+  }
+  return target;
+}
+
+/**
+ * Cron expression parser and fire-time calculator. Expressions have 5 fields
+ * (minute hour day-of-month month day-of-week) or 6 with seconds first, and
+ * are read as wall-clock times in the schedule's timezone.
+ *
+ * Around DST changes, a time skipped by a gap fires when the gap ends, moved
+ * forward by its length (02:30 becomes 03:30) and only once if that time is
+ * also scheduled. A repeated time fires once, in its first occurrence, unless
+ * the hour field starts with "*": then it fires in both, so hourly jobs keep
+ * running every hour.
+ */
+export class Cron {
+  readonly expression: string;
+  readonly timeZone: TimeZone;
+  private readonly seconds: number[];
+  private readonly minutes: number[];
+  private readonly hours: number[];
+  private readonly months: Set<number>;
+  private readonly daysOfMonth: DayField<DayOfMonthRule>;
+  private readonly daysOfWeek: DayField<DayOfWeekRule>;
+  private readonly repeatsInOverlap: boolean;
+
+  /**
+   * Creates a cron schedule; prefer the `cron` factory
+   * @param expression - 5- or 6-field cron expression, or a macro like
+   * "@daily"
+   * @param options - Timezone
+   * @throws RangeError naming the field and value of invalid expressions
+   */
+  constructor(expression: string, options: CronOptions = {}) {
+    const fail = (message: string): never => {
+      throw new RangeError(
+        `Invalid cron expression "${expression}": ${message}`
+      );
+    };
+    const trimmed = expression.trim();
+    let source = trimmed;
+    if (trimmed.startsWith("@")) {
+      source =
+        MACROS[trimmed.toLowerCase()] ?? fail(`unknown macro ${trimmed}`);
+    }
+    const fields = source.split(/\s+/);
+    if (fields.length !== 5 && fields.length !== 6) {
+      fail(`expected 5 or 6 fields, got ${fields.length}`);
+    }
+    if (fields.length === 5) {
+      fields.unshift("0");
+    }
+
+    this.expression = expression;
+    this.timeZone = options.timeZone ?? "UTC";
+    this.seconds = [...parseField(fields[0], SECOND, fail)];
+    this.minutes = [...parseField(fields[1], MINUTE, fail)];
+    this.hours = [...parseField(fields[2], HOUR, fail)];
+    this.daysOfMonth = parseDaysOfMonth(fields[3], fail);
+    this.months = parseField(fields[4], MONTH, fail);
+    this.daysOfWeek = parseDaysOfWeek(fields[5], fail);
+    this.repeatsInOverlap = fields[2].startsWith("*");
+    Object.freeze(this);
+  }
+
+  /**
+   * Finds the first fire time after a date
+   * @param from - Start instant, excluded (default: now)
+   * @returns The fire time, or null for an invalid date or a schedule that
+   * does not fire within 28 years
+   */
+  next(from: Date | string | number = new Date()): Date | null {
+    return this.search(new Date(from).getTime(), 1);
+  }
+
+  /**
+   * Finds the last fire time before a date
+   * @param from - Start instant, excluded (default: now)
+   * @returns The fire time, or null for an invalid date or a schedule that
+   * did not fire within 28 years
+   */
+  prev(from: Date | string | number = new Date()): Date | null {
+    return this.search(new Date(from).getTime(), -1);
+  }
+
+  /**
+   * Gets the fire times between two dates
+   * @param after - Start of the range
+   * @param before - End of the range
+   * @param inclusive - Include fire times equal to the bounds (default: false)
+   * @returns Fire times in order
+   */
+  between(
+    after: Date | string | number,
+    before: Date | string | number,
+    inclusive = false
+  ): Date[] {
+    const to = new Date(before).getTime();
+    const result: Date[] = [];
+    let current = this.next(new Date(after).getTime() - (inclusive ? 1 : 0));
+    while (current) {
+      const time = current.getTime();
+      if (time > to || (time === to && !inclusive)) {
+        break;
+      }
+      result.push(current);
+      current = this.next(time);
+    }
+    return result;
+  }
+
+  /**
+   * Returns the expression as given
+   */
+  toString(): string {
+    return this.expression;
+  }
+
+  /**
+   * Walks scheduled wall-clock times from `from` in a direction and returns
+   * the closest instant strictly beyond it. Repeated times can map to
+   * instants out of wall-clock order, so the walk starts before a nearby
+   * overlap and stops once no later wall-clock time can be closer.
+   */
+  private search(from: number, step: 1 | -1): Date | null {
+    if (isNaN(from)) {
+      return null;
+    }
+    const toWall = (time: number) => {
+      const zoned = utcToZonedTime(time, this.timeZone);
+      return Date.UTC(
+        zoned.year,
+        zoned.month - 1,
+        zoned.day,
+        zoned.hour,
+        zoned.minute,
+        zoned.second
+      );
+    };
+    const shifted = toWall(from + step * MAX_SHIFT_MS) - step * MAX_SHIFT_MS;
+    const start =
+      step > 0
+        ? Math.min(toWall(from), shifted)
+        : Math.max(toWall(from), shifted);
+
+    let best: number | null = null;
+    for (const wall of this.wallTimes(start, step)) {
+      const instants = this.instantsOf(wall);
+      // Closest instant of this wall-clock time in the search direction
+      const nearest = step > 0 ? instants[0] : instants[instants.length - 1];
+      if (best !== null && (nearest - best) * step >= 0) {
+        break;
+      }
+      instants
+        .filter((time) => (time - from) * step > 0)
+        .forEach((time) => {
+          if (best === null || (time - best) * step < 0) {
+            best = time;
+          }
+        });
+    }
+    return best === null ? null : new Date(best);
+  }
+
+  /**
+   * Lazily yields scheduled wall-clock times (as UTC timestamps) from a
+   * wall-clock time, forward or backward
+   */
+  private *wallTimes(start: number, step: 1 | -1): Generator<number> {
+    const startDay = Math.floor(start / DAY_MS);
+    const startSecond = Math.floor((start - startDay * DAY_MS) / 1000);
+    const order = (values: number[]) =>
+      step > 0 ? values : [...values].reverse();
+
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+      const day = startDay + i * step;
+      if (!this.matchesDay(day)) {
+        continue;
+      }
+      for (const hour of order(this.hours)) {
+        for (const minute of order(this.minutes)) {
+          for (const second of order(this.seconds)) {
+            const secondOfDay = hour * 3600 + minute * 60 + second;
+            if (i === 0 && (secondOfDay - startSecond) * step < 0) {
+              continue;
+            }
+            yield day * DAY_MS + secondOfDay * 1000;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks the month and day fields for an epoch day. When both day fields
+   * are restricted, either may match, as in Vixie cron.
+   */
+  private matchesDay(epochDay: number): boolean {
+    const date = new Date(epochDay * DAY_MS);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    if (!this.months.has(month)) {
+      return false;
+    }
+
+    const { daysOfMonth, daysOfWeek } = this;
+    const last = daysInMonth(year, month);
+    const weekday = date.getUTCDay();
+    const dayOfMonthMatches =
+      daysOfMonth.values.has(day) ||
+      daysOfMonth.rules.some((rule) => {
+        switch (rule.kind) {
+          case "last":
+            return day === last - rule.offset;
+          case "lastWeekday":
+            return day === nearestWeekday(year, month, last);
+          case "nearestWeekday":
+            return day === nearestWeekday(year, month, rule.day);
+        }
+      });
+    const dayOfWeekMatches =
+      daysOfWeek.values.has(weekday) ||
+      daysOfWeek.rules.some(
+        (rule) =>
+          rule.weekday === weekday &&
+          (rule.kind === "last"
+            ? day + 7 > last
+            : Math.ceil(day / 7) === rule.nth)
+      );
+
+    if (daysOfMonth.restricted && daysOfWeek.restricted) {
+      return dayOfMonthMatches || dayOfWeekMatches;
+    }
+    return (
+      (!daysOfMonth.restricted || dayOfMonthMatches) &&
+      (!daysOfWeek.restricted || dayOfWeekMatches)
+    );
+  }
+
+  /**
+   * Resolves a wall-clock time to the instants it fires at
+   */
+  private instantsOf(wall: number): number[] {
+    const date = new Date(wall);
+    const fields = {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+    };
+    const earlier = zonedTimeToUtc(fields, this.timeZone, {
+      disambiguation: "earlier",
+    }).getTime();
+    const later = zonedTimeToUtc(fields, this.timeZone, {
+      disambiguation: "later",
+    }).getTime();
+    if (earlier === later) {
+      return [earlier];
+    }
+    const zoned = utcToZonedTime(earlier, this.timeZone);
+    const exists = zoned.hour === fields.hour && zoned.minute === fields.minute;
+    if (!exists) {
+      // Skipped by a gap: fire when it ends
+      return [later];
+    }
+    return this.repeatsInOverlap ? [earlier, later] : [earlier];
+  }
+}
+
+/**
+ * Reads a value or name of a field
+ */
+function parseValue(
+  text: string,
+  spec: FieldSpec,
+  fail: (message: string) => never
+): number {
+  const index = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  const value = index !== -1 ? spec.min + index : Number(text);
+  if (!/^\d+$/.test(text) && index === -1) {
+    fail(`unknown ${spec.name} value "${text}"`);
+  }
+  if (value < spec.min || value > spec.max) {
+    fail(`${spec.name} value ${text} is out of range ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+/**
+ * Parses a field of values, ranges, steps and lists into sorted values
+ */
+function parseField(
+  field: string,
+  spec: FieldSpec,
+  fail: (message: string) => never
+): Set<number> {
+  const values: number[] = [];
+  field.split(",").forEach((part) => {
+    const match = /^([^/]+)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      fail(`invalid ${spec.name} entry "${part}"`);
+    }
+    const [, range, stepText] = match as RegExpExecArray;
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (step < 1) {
+      fail(`${spec.name} step must be at least 1 in "${part}"`);
+    }
+
+    let from = spec.min;
+    let to = spec.max;
+    if (range !== "*") {
+      const bounds = range.split("-");
+      if (bounds.length > 2) {
+        fail(`invalid ${spec.name} range "${range}"`);
+      }
+      from = parseValue(bounds[0], spec, fail);
+      if (bounds.length === 2) {
+        to = parseValue(bounds[1], spec, fail);
+      } else if (stepText === undefined) {
+        // "5/15" runs to the end of the field, "5" alone is a single value
+        to = from;
+      }
+      if (from > to) {
+        fail(`${spec.name} range "${range}" starts after it ends`);
+      }
+    }
+    for (let value = from; value <= to; value += step) {
+      values.push(value);
+    }
+  });
+  return new Set(
+    values
+      .map((value) => (spec === DAY_OF_WEEK && value === 7 ? 0 : value))
+      .sort((a, b) => a - b)
+  );
+}
+
+/**
+ * Parses the day-of-month field, with "?", "L", "L-3", "LW" and "15W"
+ */
+function parseDaysOfMonth(
+  field: string,
+  fail: (message: string) => never
+): DayField<DayOfMonthRule> {
+  const restricted = field !== "*" && field !== "?";
+  const rules: DayOfMonthRule[] = [];
+  const plain = field
+    .split(",")
+    .filter((part) => {
+      const upper = part.toUpperCase();
+      const last = /^L(?:-(\d+))?$/.exec(upper);
+      const nearest = /^(\d+)W$/.exec(upper);
+      if (last) {
+        const offset = Number(last[1] ?? 0);
+        if (offset > 30) {
+          fail(`day-of-month offset ${upper} is out of range L-0 to L-30`);
+        }
+        rules.push({ kind: "last", offset });
+      } else if (upper === "LW") {
+        rules.push({ kind: "lastWeekday" });
+      } else if (nearest) {
+        rules.push({
+          kind: "nearestWeekday",
+          day: parseValue(nearest[1], DAY_OF_MONTH, fail),
+        });
+      } else {
+        return true;
+      }
+      return false;
+    })
+    .join(",");
+  return {
+    values:
+      restricted && plain ? parseField(plain, DAY_OF_MONTH, fail) : new Set(),
+    rules,
+    restricted,
+  };
+}
+
+/**
+ * Parses the day-of-week field, with "?", "5L" (last Friday) and "FRI#2"
+ * (second Friday)
+ */
+function parseDaysOfWeek(
+  field: string,
+  fail: (message: string) => never
+): DayField<DayOfWeekRule> {
+  const restricted = field !== "*" && field !== "?";
+  const rules: DayOfWeekRule[] = [];
+  const plain = field
+    .split(",")
+    .filter((part) => {
+      const last = /^(\w+?)L$/i.exec(part);
+      const nth = /^(\w+)#(\d+)$/.exec(part);
+      if (last) {
+        rules.push({
+          kind: "last",
+          weekday: parseValue(last[1], DAY_OF_WEEK, fail) % 7,
+        });
+      } else if (nth) {
+        const n = Number(nth[2]);
+        if (n < 1 || n > 5) {
+          fail(`day-of-week occurrence ${part} is out of range #1-#5`);
+        }
+        rules.push({
+          kind: "nth",
+          weekday: parseValue(nth[1], DAY_OF_WEEK, fail) % 7,
+          nth: n,
+        });
+      } else {
+        return true;
+      }
+      return false;
+    })
+    .join(",");
+  return {
+    values:
+      restricted && plain ? parseField(plain, DAY_OF_WEEK, fail) : new Set(),
+    rules,
+    restricted,
+  };
+}
+
+/**
+ * Creates a cron schedule
+ * @param expression - 5- or 6-field cron expression, or a macro like "@daily"
+ * @param options - Timezone
+ * @returns A new Cron
+ * @throws RangeError naming the field and value of invalid expressions
+ */
+export function cron(expression: string, options: CronOptions = {}): Cron {
+  return new Cron(expression, options);
+}
@@ -0,0 +1,301 @@
+import {
+  add,
+  calendar,
+  diff,
+  endOf,
+  format,
+  fromNow,
+  isAfter,
+  isBefore,
+  startOf,
+} from "./index";
+import { Duration } from "./duration";
+import type {
+  CalendarOptions,
+  Disambiguation,
+  FormatOptions,
+  FromNowOptions,
+  Locale,
+  StartOfUnit,
+  TimeUnit,
+  TimeZone,
+} from "./index";
+
+/**
+ * Options carried through a DayKit chain
+ */
+export interface DayKitOptions {
+  timeZone?: TimeZone;
+  locale?: Locale;
+  /** First day of the week (0 = Sunday ... 6 = Saturday) */
+  weekStartsOn?: number;
+  disambiguation?: Disambiguation;
+}
+
+/**
+ * Inputs accepted by daykit and the DayKit comparison methods
+ */
+export type DayKitInput = Date | string | number | DayKit;
+
+/**
+ * Immutable, chainable wrapper around the functional API. Every method that
+ * changes the date returns a new instance with the same timezone and locale.
+ */
+export class DayKit {
+  private readonly time: number;
+  private readonly options: Readonly<DayKitOptions>;
+
+  /**
+   * Creates a new DayKit instance; prefer the `daykit` factory
+   * @param date - Input date (defaults to current date)
+   * @param options - Timezone and locale carried through the chain
+   */
+  constructor(date: DayKitInput = new Date(), options: DayKitOptions = {}) {
+    this.time = toTime(date);
+    this.options = Object.freeze({
+      ...(date instanceof DayKit ? date.options : {}),
+      ...options,
+    });
+    Object.freeze(this);
+  }
+
+  /**
+   * The timezone used by calendar operations and formatting
+   */
+  get timeZone(): TimeZone {
+    return this.options.timeZone ?? "UTC";
+  }
+
+  /**
+   * The locale used by formatting and relative time
+   */
+  get locale(): Locale {
+    return this.options.locale ?? "en-US";
+  }
+
+  /**
+   * Returns a copy in another timezone; the instant does not change
+   * @param timeZone - Target timezone
+   * @returns New instance in the target timezone
+   */
+  withTimeZone(timeZone: TimeZone): DayKit {
+    return new DayKit(this.time, { ...this.options, timeZone });
+  }
+
+  /**
+   * Returns a copy using another locale
+   * @param locale - Target locale
+   * @returns New instance with the target locale
+   */
+  withLocale(locale: Locale): DayKit {
+    return new DayKit(this.time, { ...this.options, locale });
+  }
+
+  /**
+   * Adds time in the instance's timezone
+   * @param n - Number of units to add, or a Duration
+   * @param unit - Time unit to add (omitted for a Duration)
+   * @returns New instance with time added
+   */
+  add(n: number, unit: TimeUnit): DayKit;
+  add(duration: Duration): DayKit;
+  add(n: number | Duration, unit?: TimeUnit): DayKit {
+    return this.wrap(
+      n instanceof Duration
+        ? add(this.time, n, this.options)
+        : add(this.time, n, unit as TimeUnit, this.options)
+    );
+  }
+
+  /**
+   * Subtracts time in the instance's timezone
+   * @param n - Number of units to subtract, or a Duration
+   * @param unit - Time unit to subtract (omitted for a Duration)
+   * @returns New instance with time subtracted
+   */
+  subtract(n: number, unit: TimeUnit): DayKit;
+  subtract(duration: Duration): DayKit;
+  subtract(n: number | Duration, unit?: TimeUnit): DayKit {
+    return n instanceof Duration
+      ? this.add(n.negate())
+      : this.add(-n, unit as TimeUnit);
+  }
+
+  /**
+   * Moves to the start of a unit in the instance's timezone
+   * @param unit - Time unit to get the start of
+   * @returns New instance at the start of the unit
+   */
+  startOf(unit: StartOfUnit): DayKit {
+    return this.wrap(startOf(this.time, unit, this.options));
+  }
+
+  /**
+   * Moves to the end of a unit in the instance's timezone
+   * @param unit - Time unit to get the end of
+   * @returns New instance at the end of the unit
+   */
+  endOf(unit: StartOfUnit): DayKit {
+    return this.wrap(endOf(this.time, unit, this.options));
+  }
+
+  /**
+   * Formats the date in the instance's timezone and locale
+   * @param fmt - Format string (default: "YYYY-MM-DD HH:mm:ss")
+   * @param options - Formatting options overriding the instance's
+   * @returns Formatted date string
+   */
+  format(fmt?: string, options: FormatOptions = {}): string {
+    return format(this.time, fmt, {
+      locale: this.locale,
+      timeZone: this.timeZone,
+      ...options,
+    });
+  }
+
+  /**
+   * Calculates the difference to another date
+   * @param other - Date to compare against
+   * @param unit - Time unit for the difference (default: "milliseconds")
+   * @returns Difference in the specified unit
+   */
+  diff(other: DayKitInput, unit: TimeUnit = "milliseconds"): number {
+    return diff(this.time, toTime(other), unit, this.options);
+  }
+
+  /**
+   * Checks if this date is before another
+   * @param other - Date to compare against
+   * @returns True if this date is before the other
+   */
+  isBefore(other: DayKitInput): boolean {
+    return isBefore(this.time, toTime(other));
+  }
+
+  /**
+   * Checks if this date is after another
+   * @param other - Date to compare against
+   * @returns True if this date is after the other
+   */
+  isAfter(other: DayKitInput): boolean {
+    return isAfter(this.time, toTime(other));
+  }
+
+  /**
+   * Checks if this date falls in the same unit as another, or is the same
+   * instant when no unit is given
+   * @param other - Date to compare against
+   * @param unit - Time unit to compare by
+   * @returns True if both dates share the unit
+   */
+  isSame(other: DayKitInput, unit?: StartOfUnit): boolean {
+    if (!unit) {
+      return this.time === toTime(other);
+    }
+    return (
+      this.startOf(unit).valueOf() === this.wrap(other).startOf(unit).valueOf()
+    );
+  }
+
+  /**
+   * Returns a human-readable time difference in the instance's locale
+   * @param now - The reference date (defaults to current date)
+   * @param options - Relative time options overriding the instance's
+   * @returns Human-readable time difference string
+   */
+  fromNow(now: DayKitInput = new Date(), options: FromNowOptions = {}): string {
+    return fromNow(this.time, toTime(now), {
+      locale: this.locale,
+      ...options,
+    });
+  }
+
+  /**
+   * Returns a calendar-style label in the instance's timezone and locale
+   * @param reference - The reference date (defaults to current date)
+   * @param options - Calendar options overriding the instance's
+   * @returns Calendar-style label
+   */
+  calendar(
+    reference: DayKitInput = new Date(),
+    options: CalendarOptions = {}
+  ): string {
+    return calendar(this.time, toTime(reference), {
+      locale: this.locale,
+      timeZone: this.timeZone,
+      ...options,
+    });
+  }
+
+  /**
+   * Checks if the wrapped date is valid
+   * @returns True if the date is valid
+   */
+  isValid(): boolean {
+    return !isNaN(this.time);
+  }
+
+  /**
+   * Converts to a new Date object
+   * @returns A new Date object
+   */
+  toDate(): Date {
+    return new Date(this.time);
+  }
+
+  /**
+   * Gets the timestamp in milliseconds
+   * @returns Milliseconds since the epoch
+   */
+  valueOf(): number {
+    return this.time;
+  }
+
+  /**
+   * Gets the ISO 8601 representation in UTC
+   * @returns ISO string, or "Invalid Date"
+   */
+  toISOString(): string {
+    return this.isValid() ? this.toDate().toISOString() : "Invalid Date";
+  }
+
+  /**
+   * Serializes as an ISO string
+   * @returns ISO string, or null for invalid dates
+   */
+  toJSON(): string | null {
+    return this.isValid() ? this.toISOString() : null;
+  }
+
+  /**
+   * Formats with the default pattern in the instance's timezone
+   * @returns Formatted date string
+   */
+  toString(): string {
+    return this.format();
+  }
+
+  private wrap(date: DayKitInput): DayKit {
+    return new DayKit(toTime(date), this.options);
+  }
+}
+
+/**
+ * Reads the timestamp of any accepted input
+ */
+function toTime(date: DayKitInput): number {
+  return date instanceof DayKit ? date.valueOf() : new Date(date).getTime();
+}
+
+/**
+ * Creates an immutable, chainable DayKit instance
+ * @param date - Input date (defaults to current date)
+ * @param options - Timezone and locale carried through the chain
+ * @returns A new DayKit instance
+ */
+export function daykit(
+  date: DayKitInput = new Date(),
+  options: DayKitOptions = {}
+): DayKit {
+  return new DayKit(date, options);
+}
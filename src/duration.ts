@@ -0,0 +1,353 @@
+import type { Locale } from "./index";
+
+/**
+ * Fields of a duration, from years down to milliseconds
+ */
+export interface DurationFields {
+  years: number;
+  months: number;
+  weeks: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+const FIELDS: (keyof DurationFields)[] = [
+  "years",
+  "months",
+  "weeks",
+  "days",
+  "hours",
+  "minutes",
+  "seconds",
+  "milliseconds",
+];
+
+/**
+ * Milliseconds per exact field; days count as 24 hours when normalizing
+ */
+const FIELD_MS: Partial<Record<keyof DurationFields, number>> = {
+  weeks: 604_800_000,
+  days: 86_400_000,
+  hours: 3_600_000,
+  minutes: 60_000,
+  seconds: 1000,
+  milliseconds: 1,
+};
+
+/**
+ * Average calendar lengths used when humanizing milliseconds
+ */
+const AVERAGE_MS: Record<keyof DurationFields, number> = {
+  years: 31_557_600_000,
+  months: 2_629_800_000,
+  weeks: 604_800_000,
+  days: 86_400_000,
+  hours: 3_600_000,
+  minutes: 60_000,
+  seconds: 1000,
+  milliseconds: 1,
+};
+
+/**
+ * Options for humanize
+ */
+export interface HumanizeOptions {
+  locale?: Locale;
+  /** Maximum number of units to show, counted from the largest non-zero unit */
+  largest?: number;
+  /** Units that may appear in the output */
+  units?: (keyof DurationFields)[];
+  /** Round the smallest shown unit instead of truncating it */
+  round?: boolean;
+  style?: "long" | "short" | "narrow";
+}
+
+const ISO_NUMBER = "([+-]?\\d+(?:[.,]\\d+)?)";
+const ISO_INTEGER = "([+-]?\\d+)";
+const ISO_DURATION = new RegExp(
+  `^([+-])?P(?:${ISO_INTEGER}Y)?(?:${ISO_INTEGER}M)?(?:${ISO_INTEGER}W)?(?:${ISO_INTEGER}D)?` +
+    `(?:T(?:${ISO_NUMBER}H)?(?:${ISO_NUMBER}M)?(?:${ISO_NUMBER}S)?)?$`,
+  "i"
+);
+
+/**
+ * Immutable amount of time made of calendar fields (years, months, weeks,
+ * days) and exact fields (hours and below). Fields keep their sign, so
+ * "1 month minus 1 day" can be represented as-is.
+ */
+export class Duration implements DurationFields {
+  readonly years: number;
+  readonly months: number;
+  readonly weeks: number;
+  readonly days: number;
+  readonly hours: number;
+  readonly minutes: number;
+  readonly seconds: number;
+  readonly milliseconds: number;
+
+  /**
+   * Creates a new duration; prefer the `duration` factory
+   * @param fields - Duration fields, missing fields default to 0
+   */
+  constructor(fields: Partial<DurationFields> = {}) {
+    this.years = fields.years ?? 0;
+    this.months = fields.months ?? 0;
+    this.weeks = fields.weeks ?? 0;
+    this.days = fields.days ?? 0;
+    this.hours = fields.hours ?? 0;
+    this.minutes = fields.minutes ?? 0;
+    this.seconds = fields.seconds ?? 0;
+    this.milliseconds = fields.milliseconds ?? 0;
+    Object.freeze(this);
+  }
+
+  /**
+   * Checks if every field is zero
+   * @returns True for an empty duration
+   */
+  isZero(): boolean {
+    return FIELDS.every((field) => this[field] === 0);
+  }
+
+  /**
+   * Returns the duration with every field's sign flipped
+   * @returns New negated duration
+   */
+  negate(): Duration {
+    return this.map((value) => (value === 0 ? 0 : -value));
+  }
+
+  /**
+   * Adds another duration field by field
+   * @param other - Duration or fields to add
+   * @returns New duration holding the sum
+   */
+  add(other: Duration | Partial<DurationFields>): Duration {
+    return this.map((value, field) => value + (other[field] ?? 0));
+  }
+
+  /**
+   * Subtracts another duration field by field
+   * @param other - Duration or fields to subtract
+   * @returns New duration holding the difference
+   */
+  subtract(other: Duration | Partial<DurationFields>): Duration {
+    return this.add(new Duration(other).negate());
+  }
+
+  /**
+   * Balances fields so each stays below the next unit (12 months, 24 hours,
+   * 60 minutes, 60 seconds, 1000 milliseconds). Weeks are folded into days,
+   * and days are never carried into months because their length varies, so
+   * years and months take the sign of their own total and days through
+   * milliseconds take theirs: P1M-1D stays P1M-1D.
+   * @returns New normalized duration
+   */
+  normalize(): Duration {
+    const totalMonths = this.years * 12 + this.months;
+    const totalMs = FIELDS.reduce(
+      (sum, field) => sum + this[field] * (FIELD_MS[field] ?? 0),
+      0
+    );
+
+    const fields: Partial<DurationFields> = {
+      years: Math.trunc(totalMonths / 12) || 0,
+      months: totalMonths % 12 || 0,
+    };
+    let rest = Math.abs(totalMs);
+    const sign = totalMs < 0 ? -1 : 1;
+    (["days", "hours", "minutes", "seconds", "milliseconds"] as const).forEach(
+      (field) => {
+        const size = FIELD_MS[field] ?? 1;
+        fields[field] = sign * Math.floor(rest / size) || 0;
+        rest %= size;
+      }
+    );
+    return new Duration(fields);
+  }
+
+  /**
+   * Gets the exact length in milliseconds, counting days as 24 hours
+   * @returns Total milliseconds, or NaN if the duration has years or months
+   */
+  toMilliseconds(): number {
+    if (this.years !== 0 || this.months !== 0) {
+      return NaN;
+    }
+    return FIELDS.reduce(
+      (sum, field) => sum + this[field] * (FIELD_MS[field] ?? 0),
+      0
+    );
+  }
+
+  /**
+   * Formats as an ISO 8601 duration such as "P1Y2M10DT2H30M". A duration
+   * whose fields are all negative gets a leading "-"; mixed signs are written
+   * per field ("P1M-1D").
+   * @returns ISO 8601 duration string
+   */
+  toISO(): string {
+    if (this.isZero()) {
+      return "PT0S";
+    }
+
+    const negative = FIELDS.every((field) => this[field] <= 0);
+    const value = negative ? this.negate() : this;
+    const part = (n: number, designator: string) =>
+      n === 0 ? "" : `${n}${designator}`;
+    const seconds = (value.seconds * 1000 + value.milliseconds) / 1000;
+
+    const date =
+      part(value.years, "Y") +
+      part(value.months, "M") +
+      part(value.weeks, "W") +
+      part(value.days, "D");
+    const time =
+      part(value.hours, "H") + part(value.minutes, "M") + part(seconds, "S");
+    return `${negative ? "-" : ""}P${date}${time ? `T${time}` : ""}`;
+  }
+
+  /**
+   * Formats as an ISO 8601 duration
+   * @returns ISO 8601 duration string
+   */
+  toString(): string {
+    return this.toISO();
+  }
+
+  /**
+   * Serializes as an ISO 8601 duration
+   * @returns ISO 8601 duration string
+   */
+  toJSON(): string {
+    return this.toISO();
+  }
+
+  private map(
+    fn: (value: number, field: keyof DurationFields) => number
+  ): Duration {
+    const fields: Partial<DurationFields> = {};
+    FIELDS.forEach((field) => {
+      fields[field] = fn(this[field], field);
+    });
+    return new Duration(fields);
+  }
+}
+
+/**
+ * Creates an immutable duration
+ * @param fields - Duration fields, missing fields default to 0
+ * @returns A new Duration
+ */
+export function duration(fields: Partial<DurationFields> = {}): Duration {
+  return new Duration(fields);
+}
+
+/**
+ * Parses an ISO 8601 duration such as "P1Y2M10DT2H30M", "P2W", "PT1.5S" or
+ * "-P1D". Hours, minutes and seconds may be fractional and are spread over
+ * the smaller fields.
+ * @param input - ISO 8601 duration string
+ * @returns Parsed duration
+ * @throws RangeError if the input is not an ISO 8601 duration
+ */
+export function parseDuration(input: string): Duration {
+  const match = ISO_DURATION.exec(input.trim());
+  if (!match || !/\d/.test(input) || /T$/i.test(input.trim())) {
+    throw new RangeError(`Invalid ISO 8601 duration: "${input}"`);
+  }
+
+  const sign = match[1] === "-" ? -1 : 1;
+  const read = (value: string | undefined) =>
+    value ? sign * parseFloat(value.replace(",", ".")) : 0;
+
+  // Spread fractional time fields down to milliseconds
+  const exactMs =
+    read(match[6]) * 3_600_000 +
+    read(match[7]) * 60_000 +
+    read(match[8]) * 1000;
+  const hours = Math.trunc(read(match[6]));
+  const minutes = Math.trunc((exactMs - hours * 3_600_000) / 60_000);
+  const seconds = Math.trunc(
+    (exactMs - hours * 3_600_000 - minutes * 60_000) / 1000
+  );
+  const milliseconds = Math.round(
+    exactMs - hours * 3_600_000 - minutes * 60_000 - seconds * 1000
+  );
+
+  return new Duration({
+    years: read(match[2]),
+    months: read(match[3]),
+    weeks: read(match[4]),
+    days: read(match[5]),
+    hours,
+    minutes,
+    seconds,
+    milliseconds,
+  });
+}
+
+/**
+ * Describes a length of time in words, e.g. "2 hours, 5 minutes", using
+ * `Intl.NumberFormat` unit formatting and `Intl.ListFormat`. Years and months
+ * count as their average length (365.25 days and 1/12 of that), and the sign
+ * is ignored.
+ * @param value - Milliseconds or a Duration
+ * @param options - Humanize options
+ * @returns Localized description of the duration
+ */
+export function humanize(
+  value: number | Duration,
+  options: HumanizeOptions = {}
+): string {
+  const {
+    locale = "en-US",
+    largest = Infinity,
+    units = ["years", "months", "weeks", "days", "hours", "minutes", "seconds"],
+    round = false,
+    style = "long",
+  } = options;
+  const sorted = FIELDS.filter((field) => units.includes(field));
+  const total =
+    value instanceof Duration
+      ? FIELDS.reduce((sum, field) => sum + value[field] * AVERAGE_MS[field], 0)
+      : value;
+  if (sorted.length === 0 || !isFinite(total)) {
+    return "";
+  }
+
+  // Units from the largest non-zero one, limited to `largest`
+  const pick = (ms: number) => {
+    const first = sorted.findIndex((field) => ms >= AVERAGE_MS[field]);
+    const start = first === -1 ? sorted.length - 1 : first;
+    return sorted.slice(start, start + Math.max(1, largest));
+  };
+
+  let rest = Math.abs(total);
+  let shown = pick(rest);
+  if (round) {
+    const size = AVERAGE_MS[shown[shown.length - 1]];
+    rest = Math.round(rest / size) * size;
+    shown = pick(rest);
+  }
+
+  const parts: string[] = [];
+  shown.forEach((field, i) => {
+    const size = AVERAGE_MS[field];
+    const count = Math.floor(rest / size + 1e-9);
+    rest -= count * size;
+    if (count > 0 || (parts.length === 0 && i === shown.length - 1)) {
+      parts.push(
+        new Intl.NumberFormat(locale, {
+          style: "unit",
+          unit: field.slice(0, -1),
+          unitDisplay: style,
+        }).format(count)
+      );
+    }
+  });
+  return new Intl.ListFormat(locale, { type: "unit", style }).format(parts);
+}
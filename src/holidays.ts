@@ -0,0 +1,279 @@
+import { PlainDate } from "./plain";
+import type { HolidayProvider } from "./business";
+
+/**
+ * How a holiday that falls on a weekend day moves to a workday:
+ * - "nearest": the closest workday (Saturday → Friday, Sunday → Monday)
+ * - "next": the following workday
+ * - "previous": the preceding workday
+ */
+export type ObservedShift = "nearest" | "next" | "previous";
+
+/**
+ * A holiday definition that can be stored as JSON. `rule` is one of:
+ * - a fixed date: "12-25"
+ * - an nth weekday of a month: "4th Thursday of November", "1st Mon of Sep"
+ * - a last weekday of a month: "last Monday of May"
+ * - an offset from Western Easter Sunday in days: "Easter", "Easter+1",
+ *   "Easter-2"
+ */
+export interface HolidayRule {
+  name: string;
+  rule: string;
+  /** Move the holiday off weekend days (default: no shifting) */
+  observed?: ObservedShift;
+  /** First year the holiday applies */
+  from?: number;
+  /** Last year the holiday applies */
+  to?: number;
+}
+
+/**
+ * A holiday in a given year
+ */
+export interface Holiday {
+  name: string;
+  /** Date the holiday is observed on */
+  date: PlainDate;
+  /** Date the rule falls on, before observed shifting */
+  actualDate: PlainDate;
+}
+
+/**
+ * Options for holidaysInYear
+ */
+export interface HolidayOptions {
+  /** Days observed shifting moves holidays off (default: [0, 6]) */
+  weekend?: number[];
+}
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const ORDINALS: Record<string, number> = {
+  "1st": 1,
+  "2nd": 2,
+  "3rd": 3,
+  "4th": 4,
+  "5th": 5,
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  last: -1,
+};
+
+/**
+ * Finds an English name or its three-letter abbreviation
+ */
+function findName(names: string[], value: string): number {
+  const lower = value.toLowerCase();
+  return names.findIndex(
+    (name) => name === lower || (lower.length === 3 && name.startsWith(lower))
+  );
+}
+
+/**
+ * Creates a date, or null if it does not exist in the year
+ */
+function tryDate(year: number, month: number, day: number): PlainDate | null {
+  try {
+    return new PlainDate({ year, month, day });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets Western Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): PlainDate {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new PlainDate({ year, month, day });
+}
+
+/**
+ * Gets the nth (or last, for -1) weekday of a month
+ */
+function nthWeekday(
+  year: number,
+  month: number,
+  weekday: number,
+  nth: number
+): PlainDate | null {
+  if (nth === -1) {
+    const last = new PlainDate({ year, month, day: 1 })
+      .add(1, "months")
+      .subtract(1, "days");
+    return last.subtract((last.dayOfWeek - weekday + 7) % 7, "days");
+  }
+  const first = new PlainDate({ year, month, day: 1 });
+  const day = 1 + ((weekday - first.dayOfWeek + 7) % 7) + (nth - 1) * 7;
+  return tryDate(year, month, day);
+}
+
+/**
+ * Compiles a rule string to a function of the year
+ * @throws RangeError for unrecognized rules
+ */
+function compileRule(rule: string): (year: number) => PlainDate | null {
+  const text = rule.trim();
+
+  const fixed = /^(\d{2})-(\d{2})$/.exec(text);
+  if (fixed) {
+    const month = parseInt(fixed[1], 10);
+    const day = parseInt(fixed[2], 10);
+    // 2000 was a leap year, so this keeps "02-29" and rejects "02-30"
+    if (tryDate(2000, month, day)) {
+      return (year) => tryDate(year, month, day);
+    }
+  }
+
+  const easter = /^easter(?:\s*([+-])\s*(\d+))?$/i.exec(text);
+  if (easter) {
+    const offset =
+      (easter[1] === "-" ? -1 : 1) * parseInt(easter[2] || "0", 10);
+    return (year) => easterSunday(year).add(offset, "days");
+  }
+
+  const weekdayRule = /^(\S+)\s+(\S+)\s+of\s+(\S+)$/i.exec(text);
+  if (weekdayRule) {
+    const nth = ORDINALS[weekdayRule[1].toLowerCase()];
+    const weekday = findName(WEEKDAYS, weekdayRule[2]);
+    const month = findName(MONTHS, weekdayRule[3]) + 1;
+    if (nth !== undefined && weekday !== -1 && month !== 0) {
+      return (year) => nthWeekday(year, month, weekday, nth);
+    }
+  }
+
+  throw new RangeError(`Invalid holiday rule: "${rule}"`);
+}
+
+/**
+ * Moves a date off weekend days and dates already taken
+ */
+function shiftObserved(
+  date: PlainDate,
+  observed: ObservedShift,
+  isFree: (date: PlainDate) => boolean
+): PlainDate {
+  if (observed === "nearest") {
+    for (let distance = 1; distance < 7; distance++) {
+      const later = date.add(distance, "days");
+      if (isFree(later)) {
+        return later;
+      }
+      const earlier = date.subtract(distance, "days");
+      if (isFree(earlier)) {
+        return earlier;
+      }
+    }
+    return date;
+  }
+
+  const step = observed === "next" ? 1 : -1;
+  let current = date.add(step, "days");
+  // Bounded in case a custom weekend leaves nothing free nearby
+  for (let i = 0; i < 366 && !isFree(current); i++) {
+    current = current.add(step, "days");
+  }
+  return current;
+}
+
+/**
+ * Computes the holidays defined by rules in a year, sorted by observed date.
+ * Holidays on weekend days with an `observed` shift move to a workday that
+ * no other holiday takes, so Christmas on Saturday and Boxing Day on Sunday
+ * become Monday and Tuesday. A holiday keeps its rule's year even when it is
+ * observed across New Year.
+ * @param rules - Holiday rules, e.g. parsed from JSON
+ * @param year - Year to compute
+ * @param options - Weekend days used for observed shifting
+ * @returns Named holidays in the year
+ * @throws RangeError for unrecognized rules
+ */
+export function holidaysInYear(
+  rules: HolidayRule[],
+  year: number,
+  options: HolidayOptions = {}
+): Holiday[] {
+  const { weekend = [0, 6] } = options;
+  const isWeekend = (date: PlainDate) => weekend.includes(date.dayOfWeek);
+
+  const actual = rules
+    .filter(({ from = -Infinity, to = Infinity }) => year >= from && year <= to)
+    .map((rule) => ({ rule, date: compileRule(rule.rule)(year) }))
+    .filter(
+      (entry): entry is { rule: HolidayRule; date: PlainDate } =>
+        entry.date !== null
+    )
+    .sort((a, b) => PlainDate.compare(a.date, b.date));
+
+  // Holidays on workdays keep their date; shifted ones avoid all taken dates
+  const taken = new Set(
+    actual.filter(({ date }) => !isWeekend(date)).map(({ date }) => `${date}`)
+  );
+  const isFree = (date: PlainDate) => !isWeekend(date) && !taken.has(`${date}`);
+
+  return actual
+    .map(({ rule, date }) => {
+      let observedDate = date;
+      if (rule.observed && isWeekend(date)) {
+        observedDate = shiftObserved(date, rule.observed, isFree);
+        taken.add(`${observedDate}`);
+      }
+      return { name: rule.name, date: observedDate, actualDate: date };
+    })
+    .sort((a, b) => PlainDate.compare(a.date, b.date));
+}
+
+/**
+ * Creates a holiday provider for `businessCalendar` from rules
+ * @param rules - Holiday rules, e.g. parsed from JSON
+ * @param options - Weekend days used for observed shifting
+ * @returns Function returning the observed holiday dates of a year
+ * @throws RangeError for unrecognized rules
+ */
+export function holidayProvider(
+  rules: HolidayRule[],
+  options: HolidayOptions = {}
+): HolidayProvider {
+  rules.forEach(({ rule }) => compileRule(rule));
+  return (year) => holidaysInYear(rules, year, options).map(({ date }) => date);
+}
@@ -1,13 +1,35 @@
+import { createIntlCache, getDateTimeFormat, getOrdinalRules } from "./cache";
+import { Duration } from "./duration";
+import { getLocaleInfo, getMonthNames, getWeekdayNames } from "./locale";
+import { DAY_MS, daysInMonth, toEpochDay } from "./calendar-math";
+
 /**
  * Supported time units for date manipulation
  */
 export type TimeUnit =
+  | "years"
+  | "quarters"
+  | "months"
+  | "weeks"
   | "days"
   | "hours"
   | "minutes"
   | "seconds"
   | "milliseconds";
 
+/**
+ * Supported units for startOf/endOf
+ */
+export type StartOfUnit =
+  | "year"
+  | "quarter"
+  | "month"
+  | "week"
+  | "day"
+  | "hour"
+  | "minute"
+  | "second";
+
 /**
  * Supported format tokens for date formatting
  */
@@ -25,7 +47,40 @@ export type FormatToken =
   | "mm"
   | "ss"
   | "A"
-  | "a";
+  | "a"
+  | "Z"
+  | "W"
+  | "WW"
+  | "w"
+  | "ww"
+  | "RRRR"
+  | "M"
+  | "D"
+  | "H"
+  | "h"
+  | "m"
+  | "s"
+  | "SSS"
+  | "SS"
+  | "S"
+  | "Do"
+  | "Q"
+  | "DDDD"
+  | "ZZ"
+  | "XXX"
+  | "z"
+  | "X"
+  | "x"
+  | "G"
+  | "GGGG"
+  | LocalizedFormat;
+
+/**
+ * Locale-dependent presets, as in moment: times (`LT`, `LTS`), a numeric date
+ * (`L`) and long dates with or without a weekday and time (`LL`, `LLL`,
+ * `LLLL`)
+ */
+export type LocalizedFormat = "LT" | "LTS" | "L" | "LL" | "LLL" | "LLLL";
 
 /**
  * Supported locale options
@@ -47,6 +102,74 @@ export interface TimezoneInfo {
   abbreviation: string;
 }
 
+/**
+ * Wall-clock time of an instant in a timezone (month is 1-based)
+ */
+export interface ZonedTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  /** Offset from UTC in minutes */
+  offset: number;
+}
+
+/**
+ * Date fields of an instant in a calendar system
+ */
+export interface CalendarFields {
+  /** Calendar identifier, such as "gregory" or "islamic-umalqura" */
+  calendar: string;
+  /** Short English era name, such as "AD", "AH" or "Reiwa"; empty if none */
+  era: string;
+  /** Year of the era; the related Gregorian year for Chinese and Dangi */
+  year: number;
+  /**
+   * Month counted from 1 at the start of the year; leap months of the
+   * Chinese, Dangi and Hebrew calendars take the next number
+   */
+  month: number;
+  day: number;
+}
+
+/**
+ * Wall-clock fields accepted by zonedTimeToUtc; the time defaults to midnight.
+ * An `offset` picks between the two instants of a fall-back overlap.
+ */
+export type ZonedTimeFields = Pick<ZonedTime, "year" | "month" | "day"> &
+  Partial<Omit<ZonedTime, "year" | "month" | "day">>;
+
+/**
+ * A change of a timezone's UTC offset
+ */
+export interface TimezoneTransition {
+  /** First instant at the new offset */
+  date: Date;
+  /** Offset before the change, in minutes */
+  offsetBefore: number;
+  /** Offset after the change, in minutes */
+  offsetAfter: number;
+  abbreviationBefore: string;
+  abbreviationAfter: string;
+  /** "start" and "end" for daylight saving time, "change" otherwise */
+  type: "start" | "end" | "change";
+}
+
+/**
+ * Offset changes of a timezone in one year
+ */
+export interface DSTTransitions {
+  /** Instant daylight saving time starts, or null */
+  start: Date | null;
+  /** Instant daylight saving time ends, or null */
+  end: Date | null;
+  /** Every offset change in the year, in order */
+  transitions: TimezoneTransition[];
+}
+
 /**
  * Date formatting options
  */
@@ -54,6 +177,535 @@ export interface FormatOptions {
   locale?: Locale;
   timeZone?: TimeZone;
   hour12?: boolean;
+  /**
+   * Calendar system of the year, month, day and era tokens, such as
+   * "islamic-umalqura" or "buddhist" (default: "gregory")
+   */
+  calendar?: string;
+}
+
+/**
+ * Date parsing options
+ */
+export interface ParseOptions extends FormatOptions {
+  /**
+   * Require an exact match of the pattern: fixed field widths, exact-case
+   * names, in-range fields, a consistent weekday and an existing wall-clock time
+   */
+  strict?: boolean;
+}
+
+/**
+ * How to resolve a wall-clock time that a timezone skips (spring-forward gap)
+ * or repeats (fall-back overlap):
+ * - "compatible": the earlier instant of an overlap; a gap moves forward by
+ *   its length (01:30 + 1 day can become 03:30 on a spring-forward day)
+ * - "earlier": the earlier instant; a gap moves backward by its length
+ * - "later": the later instant; a gap moves forward by its length
+ * - "reject": throw a RangeError
+ */
+export type Disambiguation = "compatible" | "earlier" | "later" | "reject";
+
+/**
+ * Options for timezone-aware calendar arithmetic
+ */
+export interface TimeZoneOptions {
+  timeZone?: TimeZone;
+  disambiguation?: Disambiguation;
+}
+
+/**
+ * Options for zonedTimeToUtc
+ */
+export interface ZonedTimeOptions {
+  disambiguation?: Disambiguation;
+}
+
+/**
+ * Cut-offs for fromNow: a difference is shown in a unit while its rounded
+ * value is below that unit's threshold
+ */
+export interface RelativeTimeThresholds {
+  /** Seconds below which the difference reads as "now" */
+  ss: number;
+  /** Seconds before switching to minutes */
+  s: number;
+  /** Minutes before switching to hours */
+  m: number;
+  /** Hours before switching to days */
+  h: number;
+  /** Days before switching to weeks */
+  d: number;
+  /** Weeks before switching to months (0 skips weeks) */
+  w: number;
+  /** Months before switching to years */
+  M: number;
+}
+
+/**
+ * Options for fromNow
+ */
+export interface FromNowOptions extends FormatOptions {
+  thresholds?: Partial<RelativeTimeThresholds>;
+  /** "auto" allows phrases like "yesterday" (default: "auto") */
+  numeric?: "always" | "auto";
+  /** How to round the difference in the chosen unit (default: "round") */
+  rounding?: "round" | "floor" | "ceil";
+  /** Text shown below the `ss` threshold (default: the locale's "now") */
+  nowText?: string;
+}
+
+/**
+ * Buckets used by calendar, from the reference date's point of view
+ */
+export type CalendarBucket =
+  | "sameDay"
+  | "nextDay"
+  | "lastDay"
+  | "nextWeek"
+  | "lastWeek"
+  | "sameElse";
+
+/**
+ * Options for calendar
+ */
+export interface CalendarOptions extends FormatOptions {
+  /** Per-bucket override: a `format` pattern or a callback */
+  formats?: Partial<
+    Record<CalendarBucket, string | ((date: Date, reference: Date) => string)>
+  >;
+}
+
+/**
+ * Options for startOf/endOf
+ */
+export interface StartOfOptions {
+  timeZone?: TimeZone;
+  /** Locale used for the default first day of the week */
+  locale?: Locale;
+  /** First day of the week (0 = Sunday ... 6 = Saturday) */
+  weekStartsOn?: number;
+}
+
+/**
+ * Options for getWeek
+ */
+export interface WeekOptions extends StartOfOptions {
+  /**
+   * Day of January that week 1 must contain (1-7, default: the locale's); 1
+   * makes the week holding January 1 week 1, 4 gives ISO-style weeks
+   */
+  firstWeekContainsDate?: number;
+}
+
+/**
+ * Bracketed escapes and runs of letters, which hold the tokens
+ */
+const WORD_REGEX = /\[[^\]]*\]|[A-Za-z]+/g;
+
+/**
+ * Multi-letter tokens shared by `format` and `parse`, longest first
+ */
+const LONG_TOKEN_REGEX =
+  /YYYY|GGGG|RRRR|MMMM|DDDD|dddd|MMM|ddd|SSS|XXX|YY|MM|DD|HH|hh|mm|ss|SS|ZZ|WW|ww/y;
+
+/**
+ * Short tokens and localized presets, which only count next to a
+ * multi-letter token or alone, so "ALL" stays a word
+ */
+const SHORT_TOKEN_REGEX = /LLLL|LLL|LTS|LT|LL|Do|[MDHhmsSQAaZzXxWwLG]/y;
+
+/**
+ * `Intl.DateTimeFormat` options behind each localized preset
+ */
+const LOCALIZED_FORMATS: Record<LocalizedFormat, Intl.DateTimeFormatOptions> = {
+  LT: { timeStyle: "short" },
+  LTS: { timeStyle: "medium" },
+  L: { year: "numeric", month: "2-digit", day: "2-digit" },
+  LL: { dateStyle: "long" },
+  LLL: { dateStyle: "long", timeStyle: "short" },
+  LLLL: { dateStyle: "full", timeStyle: "short" },
+};
+
+/**
+ * Checks for a localized preset name, ignoring inherited keys such as
+ * "toString"
+ */
+function isLocalizedFormat(value: string): value is LocalizedFormat {
+  return Object.hasOwn(LOCALIZED_FORMATS, value);
+}
+
+/**
+ * Literal text or a token of a format string
+ */
+interface FormatPart {
+  text: string;
+  token: boolean;
+}
+
+/**
+ * Token or stray letter within a run of letters
+ */
+interface WordPiece {
+  text: string;
+  kind: "long" | "short" | "literal";
+}
+
+/**
+ * Splits a format string into literal text and tokens. Text in brackets is
+ * literal. A run of letters is read as tokens when it is one token, or when
+ * multi-letter tokens hold it together: short tokens must touch one, unless
+ * they are an `h` or `H` followed by `A` or `a`, and other letters must sit
+ * between two. So "h:mma" and "hA" are tokens and the "T" of
+ * "YYYYMMDDTHHmmss" is literal, while words such as "at", "as" or "Address"
+ * stay literal.
+ */
+function tokenizeFormat(fmt: string): FormatPart[] {
+  const parts: FormatPart[] = [];
+  const addLiteral = (text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && !last.token) {
+      last.text += text;
+    } else if (text) {
+      parts.push({ text, token: false });
+    }
+  };
+  const addWord = (word: string) => {
+    const pieces: WordPiece[] = [];
+    for (let i = 0; i < word.length; ) {
+      let piece: WordPiece = { text: word[i], kind: "literal" };
+      for (const [regex, kind] of [
+        [LONG_TOKEN_REGEX, "long"],
+        [SHORT_TOKEN_REGEX, "short"],
+      ] as const) {
+        regex.lastIndex = i;
+        const match = regex.exec(word);
+        if (match) {
+          piece = { text: match[0], kind };
+          break;
+        }
+      }
+      pieces.push(piece);
+      i += piece.text.length;
+    }
+    const isLong = (i: number) => pieces[i]?.kind === "long";
+    // An hour followed by its day period, as in "hA"
+    const isMeridiemPair = (i: number) =>
+      /^[hH]$/.test(pieces[i]?.text) && /^[Aa]$/.test(pieces[i + 1]?.text);
+    const tokens =
+      pieces.length === 1
+        ? pieces[0].kind !== "literal"
+        : pieces.every(({ kind }, i) => {
+            if (kind === "short") {
+              return (
+                isLong(i - 1) ||
+                isLong(i + 1) ||
+                isMeridiemPair(i) ||
+                isMeridiemPair(i - 1)
+              );
+            }
+            return kind === "long" || (isLong(i - 1) && isLong(i + 1));
+          });
+    if (!tokens) {
+      addLiteral(word);
+      return;
+    }
+    pieces.forEach(({ text, kind }) =>
+      kind === "literal" ? addLiteral(text) : parts.push({ text, token: true })
+    );
+  };
+
+  let last = 0;
+  for (const match of fmt.matchAll(WORD_REGEX)) {
+    addLiteral(fmt.slice(last, match.index));
+    last = (match.index ?? 0) + match[0].length;
+    if (match[0].startsWith("[")) {
+      addLiteral(match[0].slice(1, -1));
+    } else {
+      addWord(match[0]);
+    }
+  }
+  addLiteral(fmt.slice(last));
+  return parts;
+}
+
+/**
+ * Checks if a format string shows the hour on a 12-hour clock
+ */
+function usesHour12(parts: FormatPart[]): boolean {
+  return parts.some(
+    (part) => part.token && ["A", "a", "hh", "h"].includes(part.text)
+  );
+}
+
+/**
+ * Ordinal suffixes by language and `Intl.PluralRules` category; other
+ * languages show the bare number
+ */
+const ORDINAL_SUFFIXES: Record<string, Record<string, string>> = {
+  en: { one: "st", two: "nd", few: "rd", other: "th" },
+  de: { other: "." },
+  es: { other: "º" },
+  fr: { one: "er", other: "e" },
+  it: { other: "º" },
+  nl: { other: "e" },
+  pt: { other: "º" },
+};
+
+/**
+ * Gets the ordinal suffixes of a locale's language
+ */
+function getOrdinalSuffixes(locale: Locale): Record<string, string> {
+  return ORDINAL_SUFFIXES[new Intl.Locale(locale).language] ?? {};
+}
+
+/**
+ * Creates a function formatting numbers as locale ordinals, such as "21st"
+ * or "21.", looking the locale's suffixes and rules up once
+ */
+function getOrdinalFormatter(locale: Locale): (n: number) => string {
+  const suffixes = getOrdinalSuffixes(locale);
+  const rules = getOrdinalRules(locale);
+  return (n) => `${n}${suffixes[rules.select(n)] ?? suffixes.other ?? ""}`;
+}
+
+/**
+ * Formats an offset in minutes as "+07:00"
+ */
+function formatOffset(minutes: number): string {
+  const abs = Math.abs(minutes);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${minutes < 0 ? "-" : "+"}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/**
+ * Wall-clock fields of an instant in a timezone (month is 1-based)
+ */
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const wallClockFormatters = createIntlCache<TimeZone, Intl.DateTimeFormat>(64);
+
+/**
+ * Reads the wall-clock fields of a date in the given timezone
+ */
+function getWallClock(date: Date, timeZone: TimeZone): WallClock {
+  if (timeZone === "UTC") {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      millisecond: date.getUTCMilliseconds(),
+    };
+  }
+
+  const formatter = wallClockFormatters.get(
+    timeZone,
+    () =>
+      new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+        hourCycle: "h23",
+      })
+  );
+
+  const values: Record<string, number> = {};
+  formatter.formatToParts(date).forEach((part) => {
+    if (part.type !== "literal") {
+      values[part.type] = parseInt(part.value, 10);
+    }
+  });
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour % 24,
+    minute: values.minute,
+    second: values.second,
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+/**
+ * Interprets wall-clock fields as UTC, normalizing out-of-range fields
+ */
+function wallClockToUTC(wall: WallClock): number {
+  const d = new Date(0);
+  d.setUTCFullYear(wall.year, wall.month - 1, wall.day);
+  d.setUTCHours(wall.hour, wall.minute, wall.second, wall.millisecond);
+  return d.getTime();
+}
+
+/**
+ * Gets the offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getOffsetMs(time: number, timeZone: TimeZone): number {
+  return wallClockToUTC(getWallClock(new Date(time), timeZone)) - time;
+}
+
+/**
+ * Finds every instant showing the given wall-clock time in a timezone:
+ * none inside a spring-forward gap, two inside a fall-back overlap
+ */
+function getWallClockCandidates(wall: WallClock, timeZone: TimeZone): number[] {
+  const local = wallClockToUTC(wall);
+  if (isNaN(local) || timeZone === "UTC") {
+    return [local];
+  }
+
+  const offsets = new Set([
+    getOffsetMs(local - DAY_MS, timeZone),
+    getOffsetMs(local, timeZone),
+    getOffsetMs(local + DAY_MS, timeZone),
+  ]);
+  return [...offsets]
+    .map((offset) => local - offset)
+    .filter(
+      (time) => wallClockToUTC(getWallClock(new Date(time), timeZone)) === local
+    )
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Converts wall-clock fields in a timezone to an instant, resolving gaps and
+ * overlaps as described by `Disambiguation`
+ */
+function resolveWallClock(
+  wall: WallClock,
+  timeZone: TimeZone,
+  disambiguation: Disambiguation = "compatible"
+): number {
+  const candidates = getWallClockCandidates(wall, timeZone);
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+
+  const local = wallClockToUTC(wall);
+  if (disambiguation === "reject") {
+    const kind = candidates.length > 1 ? "is ambiguous" : "does not exist";
+    throw new RangeError(
+      `${new Date(local).toISOString().slice(0, 23)} ${kind} in ${timeZone}`
+    );
+  }
+  if (candidates.length > 1) {
+    return disambiguation === "later"
+      ? candidates[candidates.length - 1]
+      : candidates[0];
+  }
+
+  // Inside a gap: shifting by the offset from before the gap lands after it
+  return disambiguation === "earlier"
+    ? local - getOffsetMs(local + DAY_MS, timeZone)
+    : local - getOffsetMs(local - DAY_MS, timeZone);
+}
+
+/**
+ * Escapes a string for literal use inside a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Builds the localized Gregorian month, weekday, era or day period names,
+ * indexed from January, Sunday, BC or AM. "monthInDate" gives the month names
+ * as a full date shows them, such as the Russian "марта" for "март".
+ */
+function getNames(
+  locale: Locale,
+  field: "month" | "monthInDate" | "weekday" | "era" | "dayPeriod",
+  width: "long" | "short"
+): string[] {
+  if (field === "monthInDate") {
+    const formatter = getDateTimeFormat(locale, {
+      day: "numeric",
+      month: width,
+      timeZone: "UTC",
+      calendar: "gregory",
+    });
+    return Array.from(
+      { length: 12 },
+      (_, i) =>
+        formatter
+          .formatToParts(Date.UTC(2024, i, 15))
+          .find((part) => part.type === "month")?.value ?? ""
+    );
+  }
+  if (field === "dayPeriod") {
+    const formatter = getDateTimeFormat(locale, {
+      hour: "numeric",
+      hour12: true,
+      timeZone: "UTC",
+    });
+    return [0, 12].map(
+      (hour) =>
+        formatter
+          .formatToParts(Date.UTC(2024, 0, 1, hour))
+          .find((part) => part.type === "dayPeriod")?.value ?? ""
+    );
+  }
+  if (field === "era") {
+    const formatter = getDateTimeFormat(locale, {
+      era: width,
+      timeZone: "UTC",
+      calendar: "gregory",
+    });
+    return [Date.UTC(-100, 0, 1), Date.UTC(2024, 0, 1)].map(
+      (time) =>
+        formatter.formatToParts(time).find((part) => part.type === "era")
+          ?.value ?? ""
+    );
+  }
+  return field === "month"
+    ? getMonthNames(locale, width)
+    : getWeekdayNames(locale, width, { weekStartsOn: 0 });
+}
+
+/**
+ * Gets the short timezone name shown by `format`'s `Z` token
+ */
+function getTimeZoneName(
+  date: Date,
+  timeZone: TimeZone,
+  locale: Locale
+): string {
+  return (
+    getDateTimeFormat(locale, { timeZone, timeZoneName: "short" })
+      .formatToParts(date)
+      .find((part) => part.type === "timeZoneName")?.value || ""
+  );
+}
+
+/**
+ * Reads a numeric offset such as "Z", "+07:00", "-0500", "GMT+7" or "UTC"
+ * @returns Offset in milliseconds, or undefined for a named zone like "EDT"
+ */
+function parseOffset(value: string): number | undefined {
+  if (/^(?:Z|GMT|UTC)$/i.test(value)) {
+    return 0;
+  }
+  const match = /^(?:GMT|UTC)?([+-])(\d{1,2})(?::?(\d{2}))?$/i.exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3] || "0", 10);
+  return (match[1] === "-" ? -minutes : minutes) * 60000;
 }
 
 /**
@@ -73,6 +725,72 @@ export function getAvailableTimezones(): string[] {
   return Intl.supportedValuesOf("timeZone");
 }
 
+/**
+ * Converts a wall-clock time in a timezone to the instant it happens. Times
+ * skipped or repeated by a DST change are resolved by `disambiguation`,
+ * unless `fields.offset` names one of the two instants of an overlap.
+ * @param fields - Wall-clock fields (month is 1-based)
+ * @param timeZone - Timezone the fields are read in
+ * @param options - Disambiguation options (default: "compatible")
+ * @returns The UTC instant, or an invalid Date for non-finite fields
+ * @throws RangeError for an unknown timezone, or a gap or overlap with
+ * `disambiguation: "reject"`
+ */
+export function zonedTimeToUtc(
+  fields: ZonedTimeFields,
+  timeZone: TimeZone,
+  options: ZonedTimeOptions = {}
+): Date {
+  const wall: WallClock = {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    hour: fields.hour ?? 0,
+    minute: fields.minute ?? 0,
+    second: fields.second ?? 0,
+    millisecond: fields.millisecond ?? 0,
+  };
+  const { offset } = fields;
+  if (offset !== undefined) {
+    const local = wallClockToUTC(wall);
+    const match = getWallClockCandidates(wall, timeZone).find(
+      (time) => local - time === offset * 60000
+    );
+    if (match !== undefined) {
+      return new Date(match);
+    }
+  }
+  return new Date(resolveWallClock(wall, timeZone, options.disambiguation));
+}
+
+/**
+ * Reads the wall-clock time and UTC offset of an instant in a timezone
+ * @param date - The instant to read
+ * @param timeZone - Timezone to read it in
+ * @returns Wall-clock fields, all NaN for an invalid date
+ * @throws RangeError for an unknown timezone and a valid date
+ */
+export function utcToZonedTime(
+  date: Date | string | number,
+  timeZone: TimeZone
+): ZonedTime {
+  const d = new Date(date);
+  if (isNaN(d.getTime())) {
+    return {
+      year: NaN,
+      month: NaN,
+      day: NaN,
+      hour: NaN,
+      minute: NaN,
+      second: NaN,
+      millisecond: NaN,
+      offset: NaN,
+    };
+  }
+  const wall = getWallClock(d, timeZone);
+  return { ...wall, offset: (wallClockToUTC(wall) - d.getTime()) / 60000 };
+}
+
 /**
  * Gets timezone information for a specific date and timezone
  * @param date - The date to get timezone info for
@@ -85,58 +803,17 @@ export function getTimezoneInfo(
 ): TimezoneInfo {
   try {
     const d = new Date(date);
+    const { offset, year } = utcToZonedTime(d, timeZone);
 
-    // Get the timezone offset in minutes
-    const utcDate = new Date(d.toLocaleString("en-US", { timeZone: "UTC" }));
-    const tzDate = new Date(d.toLocaleString("en-US", { timeZone }));
-    const offset = (tzDate.getTime() - utcDate.getTime()) / 60000;
-
-    // For US timezones, we know the standard offset
-    let isDST = false;
-    if (timeZone === "America/New_York") {
-      // Standard offset for New York is -300 minutes (UTC-5)
-      isDST = offset !== -300;
-    } else if (timeZone === "UTC") {
-      isDST = false;
-    } else {
-      // For other timezones, compare with January and July
-      const jan = new Date(d.getFullYear(), 0, 1);
-      const jul = new Date(d.getFullYear(), 6, 1);
-      const janTzDate = new Date(jan.toLocaleString("en-US", { timeZone }));
-      const janUtcDate = new Date(
-        jan.toLocaleString("en-US", { timeZone: "UTC" })
-      );
-      const julTzDate = new Date(jul.toLocaleString("en-US", { timeZone }));
-      const julUtcDate = new Date(
-        jul.toLocaleString("en-US", { timeZone: "UTC" })
-      );
-      const janOffset = (janTzDate.getTime() - janUtcDate.getTime()) / 60000;
-      const julOffset = (julTzDate.getTime() - julUtcDate.getTime()) / 60000;
-
-      // If offset matches July, it's DST; if it matches January, it's not
-      if (
-        Math.abs(offset - Math.max(janOffset, julOffset)) < 1e-6 &&
-        janOffset !== julOffset
-      ) {
-        isDST = true;
-      }
-    }
-
-    // Get timezone abbreviation
-    const abbreviationFormatter = new Intl.DateTimeFormat("en-US", {
-      timeZone,
-      timeZoneName: "short",
-    });
-    const abbreviation =
-      abbreviationFormatter
-        .formatToParts(d)
-        .find((part) => part.type === "timeZoneName")?.value || "";
+    // DST is any offset above the year's standard (smaller seasonal) offset
+    const january = utcToZonedTime(Date.UTC(year, 0, 1), timeZone).offset;
+    const july = utcToZonedTime(Date.UTC(year, 6, 1), timeZone).offset;
 
     return {
       name: timeZone,
       offset,
-      isDST,
-      abbreviation,
+      isDST: january !== july && offset > Math.min(january, july),
+      abbreviation: getTimeZoneName(d, timeZone, "en-US"),
     };
   } catch {
     return {
@@ -162,65 +839,299 @@ export function isDST(timeZone: TimeZone): boolean {
 }
 
 /**
- * Gets the DST transition dates for a timezone in a given year
+ * Gets every UTC offset change of a timezone during a year (in the zone's own
+ * calendar), exact to the second. The year is sampled every 12 hours and each
+ * change is narrowed down by bisection. A change the zone undoes within a
+ * year, before or after it, is a daylight saving time "start" if it raises
+ * the offset and an "end" if it lowers it; any other change is a "change".
+ * `start` and `end` pick the first of each, so in the southern hemisphere
+ * `end` comes before `start`.
  * @param timeZone - The timezone to check
  * @param year - The year to check (defaults to current year)
- * @returns Object containing start and end dates of DST
+ * @returns DST start and end plus every offset change in the year
  */
 export function getDSTTransitions(
   timeZone: TimeZone,
   year: number = new Date().getFullYear()
-): { start: Date | null; end: Date | null } {
-  // Return null for UTC as it doesn't have DST
+): DSTTransitions {
+  const none: DSTTransitions = { start: null, end: null, transitions: [] };
   if (timeZone === "UTC") {
-    return { start: null, end: null };
+    return none;
   }
 
   try {
-    // Validate timezone
-    if (!Intl.supportedValuesOf("timeZone").includes(timeZone)) {
-      return { start: null, end: null };
-    }
-
-    // For 2024, we know the exact DST transition dates for US timezones
-    if (year === 2024 && timeZone === "America/New_York") {
-      return {
-        start: new Date("2024-03-10T07:00:00Z"),
-        end: new Date("2024-11-03T06:00:00Z"),
-      };
+    const wall = (y: number): WallClock => ({
+      year: y,
+      month: 1,
+      day: 1,
+      hour: 0,
+      minute: 0,
+      second: 0,
+      millisecond: 0,
+    });
+    const from = resolveWallClock(wall(year), timeZone);
+    const to = resolveWallClock(wall(year + 1), timeZone);
+    if (isNaN(from) || isNaN(to)) {
+      return none;
     }
 
-    // For other years or timezones, calculate transitions
-    const start = new Date(year, 0, 1);
-    const end = new Date(year, 11, 31);
-    let transitions: Date[] = [];
+    const step = DAY_MS / 2;
+    // Checks if the zone is at an offset within a year of an instant, looking
+    // forward (1) or back (-1)
+    const reaches = (offset: number, time: number, direction: 1 | -1) => {
+      for (let i = 1; i <= 730; i++) {
+        if (getOffsetMs(time + direction * i * step, timeZone) === offset) {
+          return true;
+        }
+      }
+      return false;
+    };
 
-    // Check each day of the year for DST transitions
-    for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-      const info = getTimezoneInfo(d, timeZone);
-      if (
-        transitions.length === 0 ||
-        info.isDST !==
-          getTimezoneInfo(new Date(d.getTime() - 86400000), timeZone).isDST
-      ) {
-        transitions.push(new Date(d));
+    const transitions: TimezoneTransition[] = [];
+    let previous = from;
+    let previousOffset = getOffsetMs(from, timeZone);
+    while (previous < to) {
+      const next = Math.min(previous + step, to);
+      const nextOffset = getOffsetMs(next, timeZone);
+      if (nextOffset !== previousOffset) {
+        let low = previous;
+        let high = next;
+        while (high - low > 1) {
+          const mid = Math.floor((low + high) / 2);
+          if (getOffsetMs(mid, timeZone) === previousOffset) {
+            low = mid;
+          } else {
+            high = mid;
+          }
+        }
+        const offsetAfter = getOffsetMs(high, timeZone);
+        // Daylight saving time is the higher offset of a change the zone
+        // undoes within a year; other changes move its standard time
+        const seasonal =
+          reaches(offsetAfter, low, -1) || reaches(previousOffset, high, 1);
+        let type: TimezoneTransition["type"] = "change";
+        if (seasonal) {
+          type = offsetAfter > previousOffset ? "start" : "end";
+        }
+        transitions.push({
+          date: new Date(high),
+          offsetBefore: previousOffset / 60000,
+          offsetAfter: offsetAfter / 60000,
+          abbreviationBefore: getTimeZoneName(new Date(low), timeZone, "en-US"),
+          abbreviationAfter: getTimeZoneName(new Date(high), timeZone, "en-US"),
+          type,
+        });
+        // Rescan from the change in case the offset moved again
+        previous = high;
+        previousOffset = offsetAfter;
+        continue;
       }
+      previous = next;
+      previousOffset = nextOffset;
     }
 
     return {
-      start: transitions[0] || null,
-      end: transitions[1] || null,
+      start: transitions.find(({ type }) => type === "start")?.date ?? null,
+      end: transitions.find(({ type }) => type === "end")?.date ?? null,
+      transitions,
     };
   } catch {
-    return {
-      start: null,
-      end: null,
-    };
+    return none;
+  }
+}
+
+/**
+ * Fields of one date, read once for every token of a compiled format
+ */
+interface FormatContext {
+  date: Date;
+  zoned: ZonedTime;
+  /** Calendar fields, read on first use */
+  fields: () => CalendarFields;
+}
+
+/**
+ * Compiles one format token, looking up the formatters it needs once
+ */
+function compileToken(
+  token: string,
+  options: FormatOptions,
+  useHour12: boolean
+): (context: FormatContext) => string {
+  const { locale = "en-US", timeZone = "UTC", calendar = "gregory" } = options;
+  const pad = (value: number, length = 2) =>
+    value.toString().padStart(length, "0");
+  const hour12 = ({ zoned }: FormatContext) =>
+    useHour12 ? zoned.hour % 12 || 12 : zoned.hour;
+  const ampm = ({ zoned }: FormatContext) =>
+    useHour12 ? (zoned.hour >= 12 ? "PM" : "AM") : "";
+  const isoWeek = ({ zoned }: FormatContext) =>
+    getWeekFields(zoned.year, zoned.month, zoned.day, ISO_WEEK);
+  const dayOfYear = ({ zoned }: FormatContext) =>
+    toEpochDay(zoned.year, zoned.month, zoned.day) -
+    toEpochDay(zoned.year, 1, 1) +
+    1;
+  const name = (intlOptions: Intl.DateTimeFormatOptions) => {
+    const formatter = getDateTimeFormat(locale, { ...intlOptions, timeZone });
+    return ({ date }: FormatContext) => formatter.format(date);
+  };
+  const part = (
+    type: Intl.DateTimeFormatPartTypes,
+    intlOptions: Intl.DateTimeFormatOptions
+  ) => {
+    const formatter = getDateTimeFormat(locale, { ...intlOptions, timeZone });
+    return ({ date }: FormatContext) =>
+      formatter.formatToParts(date).find((value) => value.type === type)
+        ?.value ?? "";
+  };
+
+  switch (token) {
+    case "YYYY":
+      return (context) => context.fields().year.toString();
+    case "YY":
+      return (context) => pad(context.fields().year).slice(-2);
+    case "MMMM":
+      return name({ month: "long", calendar });
+    case "MMM":
+      return name({ month: "short", calendar });
+    case "MM":
+      return (context) => pad(context.fields().month);
+    case "M":
+      return (context) => context.fields().month.toString();
+    case "DD":
+      return (context) => pad(context.fields().day);
+    case "D":
+      return (context) => context.fields().day.toString();
+    case "Do": {
+      const ordinal = getOrdinalFormatter(locale);
+      return (context) => ordinal(context.fields().day);
+    }
+    case "dddd":
+      return name({ weekday: "long" });
+    case "ddd":
+      return name({ weekday: "short" });
+    case "HH":
+      return ({ zoned }) => pad(zoned.hour);
+    case "H":
+      return ({ zoned }) => zoned.hour.toString();
+    case "hh":
+      return (context) => pad(hour12(context));
+    case "h":
+      return (context) => hour12(context).toString();
+    case "mm":
+      return ({ zoned }) => pad(zoned.minute);
+    case "m":
+      return ({ zoned }) => zoned.minute.toString();
+    case "ss":
+      return ({ zoned }) => pad(zoned.second);
+    case "s":
+      return ({ zoned }) => zoned.second.toString();
+    case "SSS":
+    case "SS":
+    case "S":
+      return ({ zoned }) => pad(zoned.millisecond, 3).slice(0, token.length);
+    case "Q":
+      return ({ zoned }) => Math.ceil(zoned.month / 3).toString();
+    case "DDDD":
+      return (context) => pad(dayOfYear(context), 3);
+    case "A":
+      return ampm;
+    case "a":
+      return (context) => ampm(context).toLowerCase();
+    case "Z":
+      return part("timeZoneName", { timeZoneName: "short" });
+    case "ZZ":
+    case "XXX":
+      return ({ zoned }) => formatOffset(zoned.offset);
+    case "z":
+      return () => timeZone;
+    case "X":
+      return ({ date }) => Math.floor(date.getTime() / 1000).toString();
+    case "x":
+      return ({ date }) => date.getTime().toString();
+    case "W":
+    case "WW":
+      return (context) => pad(isoWeek(context).week, token.length);
+    case "w":
+    case "ww": {
+      const weekInfo = getWeekInfo(locale);
+      return ({ zoned }) =>
+        pad(
+          getWeekFields(zoned.year, zoned.month, zoned.day, weekInfo).week,
+          token.length
+        );
+    }
+    case "RRRR":
+      return (context) => pad(isoWeek(context).weekYear, 4);
+    case "G":
+      return part("era", { era: "short", calendar });
+    case "GGGG":
+      return part("era", { era: "long", calendar });
+    default: {
+      const formatter = getLocalizedFormat(token as LocalizedFormat, options);
+      return ({ date }) => formatter.format(date);
+    }
   }
 }
 
 /**
- * Formats a date according to the specified format string
+ * Compiles a format string into a function that formats dates with it. The
+ * string is tokenized and the `Intl` formatters are looked up once, so
+ * formatting many dates with one pattern, such as a table column, only reads
+ * their fields.
+ * @param fmt - Format string (default: "YYYY-MM-DD HH:mm:ss")
+ * @param options - Formatting options
+ * @returns Function returning the formatted date, or "Invalid Date" for
+ * invalid dates
+ * @throws RangeError for an invalid locale, timezone or calendar
+ */
+export function compileFormat(
+  fmt: string = "YYYY-MM-DD HH:mm:ss",
+  options: FormatOptions = {}
+): (date: Date | string | number) => string {
+  const {
+    locale = "en-US",
+    timeZone = "UTC",
+    hour12,
+    calendar = "gregory",
+  } = options;
+  // Determine if 12-hour clock is needed
+  const tokenized = tokenizeFormat(fmt);
+  const useHour12 = hour12 ?? usesHour12(tokenized);
+  // Reject bad options now, even if no token would read them
+  getDateTimeFormat(locale, { timeZone });
+  getCalendarFormatter(calendar, timeZone);
+
+  const parts = tokenized.map((part) =>
+    part.token ? compileToken(part.text, options, useHour12) : () => part.text
+  );
+  return (date) => {
+    const d = new Date(date);
+    if (isNaN(d.getTime())) {
+      return "Invalid Date";
+    }
+    // The calendar drives the date tokens; weeks, quarters and days of the
+    // year stay ISO 8601
+    let fields: CalendarFields | undefined;
+    const context: FormatContext = {
+      date: d,
+      zoned: utcToZonedTime(d, timeZone),
+      fields: () =>
+        (fields ??= getCalendarFields(d, calendar, timeZone) as CalendarFields),
+    };
+    return parts.map((part) => part(context)).join("");
+  };
+}
+
+const compiledFormats = createIntlCache<
+  string,
+  (date: Date | string | number) => string
+>(64);
+
+/**
+ * Formats a date according to the specified format string. Text in brackets
+ * is printed as is, so "[at]" stays "at". Recently used formats are compiled
+ * once, as with `compileFormat`.
  * @param date - The date to format
  * @param fmt - Format string (default: "YYYY-MM-DD HH:mm:ss")
  * @param options - Formatting options
@@ -231,162 +1142,545 @@ export function format(
   fmt: string = "YYYY-MM-DD HH:mm:ss",
   options: FormatOptions = {}
 ): string {
+  // Handle invalid dates
+  if (isNaN(new Date(date).getTime())) {
+    return "Invalid Date";
+  }
+  const { locale, timeZone, hour12, calendar } = options;
+  const key = JSON.stringify([fmt, locale, timeZone, hour12, calendar]);
+  return compiledFormats.get(key, () =>
+    compileFormat(fmt, { locale, timeZone, hour12, calendar })
+  )(date);
+}
+
+/**
+ * Gets the formatter behind `formatLocalized`
+ * @throws RangeError for an unknown preset
+ */
+function getLocalizedFormat(
+  style: LocalizedFormat | Intl.DateTimeFormatOptions,
+  options: FormatOptions
+): Intl.DateTimeFormat {
   const { locale = "en-US", timeZone = "UTC", hour12 } = options;
-  // Determine if 12-hour clock is needed
-  const useHour12 = hour12 ?? /a|A|hh/.test(fmt);
+  if (typeof style === "string" && !isLocalizedFormat(style)) {
+    throw new RangeError(`Invalid localized format: ${style}`);
+  }
+  const intlOptions: Intl.DateTimeFormatOptions = {
+    ...(typeof style === "string" ? LOCALIZED_FORMATS[style] : style),
+    timeZone,
+  };
+  if (hour12 !== undefined) {
+    intlOptions.hour12 = hour12;
+  }
+  return getDateTimeFormat(locale, intlOptions);
+}
+
+/**
+ * Spells a localized preset out as the tokens and literals its formatter
+ * prints, so `parse` reads it in the locale's field order
+ * @returns Format parts, or null if the preset shows a field `parse` cannot
+ * read, such as a year of the locale's non-Gregorian calendar
+ */
+function expandLocalizedFormat(
+  style: LocalizedFormat,
+  options: FormatOptions
+): FormatPart[] | null {
+  const { locale = "en-US" } = options;
+  const formatter = getLocalizedFormat(style, { ...options, timeZone: "UTC" });
+  const { calendar, hourCycle } = formatter.resolvedOptions();
+  if (calendar !== "gregory") {
+    return null;
+  }
+  const hour = hourCycle === "h11" || hourCycle === "h12" ? "h" : "H";
+  const tokenOf = (type: string, value: string): string | undefined => {
+    const digits = /^\d+$/.test(value);
+    // One letter for a numeric field, two for a 2-digit one
+    const width = (letter: string) =>
+      digits ? letter.repeat(value.length === 1 ? 1 : 2) : undefined;
+    switch (type) {
+      case "year":
+        return digits ? "YYYY" : undefined;
+      case "month":
+        if (digits) {
+          return width("M");
+        }
+        return value === getNames(locale, "monthInDate", "short")[0]
+          ? "MMM"
+          : "MMMM";
+      case "day":
+        return width("D");
+      case "weekday":
+        return value === getNames(locale, "weekday", "short")[2]
+          ? "ddd"
+          : "dddd";
+      case "hour":
+        return width(hour);
+      case "minute":
+        return digits ? "mm" : undefined;
+      case "second":
+        return digits ? "ss" : undefined;
+      case "dayPeriod":
+        return "A";
+    }
+    return undefined;
+  };
+  const parts: FormatPart[] = [];
+  // Tuesday, January 2, 03:04:05 tells one-digit fields from two-digit ones
+  const sample = Date.UTC(2024, 0, 2, 3, 4, 5);
+  // Some runtimes print plain spaces where formatToParts has narrow ones, so
+  // literals are read from the printed text
+  const printed = formatter.format(sample);
+  let offset = 0;
+  for (const { type, value } of formatter.formatToParts(sample)) {
+    offset += value.length;
+    if (type === "literal") {
+      parts.push({
+        text: printed.slice(offset - value.length, offset),
+        token: false,
+      });
+      continue;
+    }
+    const token = tokenOf(type, value);
+    if (!token) {
+      return null;
+    }
+    parts.push({ text: token, token: true });
+  }
+  return parts;
+}
+
+/**
+ * Formats a date in the locale's own field order, either with a moment-style
+ * preset or with raw `Intl.DateTimeFormat` options such as
+ * `{ dateStyle: "medium" }` or `{ month: "short", day: "numeric" }`. The
+ * presets are also available as `format` tokens.
+ * @param date - The date to format
+ * @param style - Preset name or `Intl.DateTimeFormat` options
+ * @param options - Locale, timezone and clock; they win over the same fields
+ * in `style`
+ * @returns Formatted date string, or "Invalid Date" for invalid dates
+ * @throws RangeError for an unknown preset
+ * @throws TypeError if `dateStyle` or `timeStyle` is mixed with component
+ * options, as `Intl.DateTimeFormat` does
+ */
+export function formatLocalized(
+  date: Date | string | number,
+  style: LocalizedFormat | Intl.DateTimeFormatOptions,
+  options: FormatOptions = {}
+): string {
+  const formatter = getLocalizedFormat(style, options);
 
-  // Handle invalid dates
   const d = new Date(date);
   if (isNaN(d.getTime())) {
     return "Invalid Date";
   }
+  return formatter.format(d);
+}
+
+/**
+ * Parses a date string according to the specified format string. It accepts
+ * the same tokens as `format`, so `format(parse(s, fmt, options), fmt, options)`
+ * returns `s` for any `s` produced by `format`.
+ *
+ * Wall-clock fields are read in `options.timeZone`. A `Z` field wins over the
+ * timezone when it holds a numeric offset and picks between the two instants of
+ * a fall-back overlap when it holds a name such as "EDT"; a `z` field replaces
+ * the timezone, and `X` or `x` fixes the instant on its own. A week field (`W`,
+ * `w`, or `RRRR` alone) replaces the month and day with the week's first day,
+ * or the parsed weekday within it; `W` counts in the `RRRR` year and `w` in
+ * the `YYYY` year. `DDDD` also replaces the month and day, and `Q` stands in
+ * for a missing month. Missing fields default to 1970-01-01 00:00:00.
+ * Localized presets such as `LL` are read in the locale's field order, except
+ * in locales that write them in another calendar or in non-Latin digits.
+ * Only the Gregorian calendar is read: text that `format` wrote with another
+ * `calendar` cannot be parsed back.
+ * @param input - The string to parse
+ * @param fmt - Format string (default: "YYYY-MM-DD HH:mm:ss")
+ * @param options - Parsing options
+ * @returns Parsed date, or an invalid Date if the input does not match
+ * @throws RangeError for a `calendar` other than "gregory"
+ */
+export function parse(
+  input: string,
+  fmt: string = "YYYY-MM-DD HH:mm:ss",
+  options: ParseOptions = {}
+): Date {
+  const {
+    locale = "en-US",
+    timeZone = "UTC",
+    hour12,
+    strict = false,
+    calendar = "gregory",
+  } = options;
+  if (calendar !== "gregory") {
+    throw new RangeError(
+      `parse reads the Gregorian calendar only, not "${calendar}"`
+    );
+  }
+
+  try {
+    // Full dates may show other month forms, as Russian does
+    const monthNames = [
+      ...getNames(locale, "month", "long"),
+      ...getNames(locale, "monthInDate", "long"),
+    ];
+    const monthShortNames = [
+      ...getNames(locale, "month", "short"),
+      ...getNames(locale, "monthInDate", "short"),
+    ];
+    const dayPeriodNames = getNames(locale, "dayPeriod", "short");
+    const dayNames = getNames(locale, "weekday", "long");
+    const dayShortNames = getNames(locale, "weekday", "short");
+    const eraNames = getNames(locale, "era", "short");
+    const eraLongNames = getNames(locale, "era", "long");
+
+    const digits = (width: number) =>
+      strict ? `(\\d{${width}})` : `(\\d{1,${width}})`;
+    const alternatives = (names: string[]) =>
+      [...names]
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp)
+        .join("|");
+    const oneOf = (names: string[]) => `(${alternatives(names)})`;
+    const ordinalSuffixes = [
+      ...new Set(Object.values(getOrdinalSuffixes(locale))),
+    ];
+    const findName = (names: string[], value: string) =>
+      names.findIndex((name) =>
+        strict
+          ? name === value
+          : name.toLocaleLowerCase(locale) === value.toLocaleLowerCase(locale)
+      );
+
+    // Build a token pattern map
+    const patternMap: Record<string, string> = {
+      YYYY: digits(4),
+      YY: "(\\d{2})",
+      MMMM: oneOf(monthNames),
+      MMM: oneOf(monthShortNames),
+      MM: digits(2),
+      DD: digits(2),
+      dddd: oneOf(dayNames),
+      ddd: oneOf(dayShortNames),
+      HH: digits(2),
+      hh: digits(2),
+      mm: digits(2),
+      ss: digits(2),
+      M: "(\\d{1,2})",
+      D: "(\\d{1,2})",
+      H: "(\\d{1,2})",
+      h: "(\\d{1,2})",
+      m: "(\\d{1,2})",
+      s: "(\\d{1,2})",
+      SSS: "(\\d{3})",
+      SS: "(\\d{2})",
+      S: "(\\d)",
+      Do: `(\\d{1,2})(?:${alternatives(ordinalSuffixes)})`,
+      Q: "([1-4])",
+      G: oneOf(eraNames),
+      GGGG: oneOf(eraLongNames),
+      DDDD: digits(3),
+      A: oneOf([...new Set(["AM", "PM", ...dayPeriodNames])]),
+      a: "(am|pm)",
+      Z: "(Z|[+-]\\d{2}:?\\d{2}|\\p{L}[\\p{L}\\d+\\-:]*)",
+      ZZ: "(Z|[+-]\\d{2}:?\\d{2})",
+      XXX: "(Z|[+-]\\d{2}:?\\d{2})",
+      z: "([A-Za-z_]+(?:/[\\w+\\-]+)*)",
+      X: "(-?\\d+(?:\\.\\d+)?)",
+      x: "(-?\\d+)",
+      W: "(\\d{1,2})",
+      WW: digits(2),
+      w: "(\\d{1,2})",
+      ww: digits(2),
+      RRRR: digits(4),
+    };
+    const literal = (text: string) =>
+      strict
+        ? escapeRegExp(text)
+        : text.split(/\s+/).map(escapeRegExp).join("\\s+");
+
+    const parts: FormatPart[] = [];
+    for (const part of tokenizeFormat(fmt)) {
+      const expanded =
+        part.token && isLocalizedFormat(part.text)
+          ? expandLocalizedFormat(part.text, { locale, timeZone, hour12 })
+          : [part];
+      if (!expanded) {
+        return new Date(NaN);
+      }
+      parts.push(...expanded);
+    }
+    // Mirror format's choice of 12-hour clock
+    const useHour12 = hour12 ?? usesHour12(parts);
+
+    const tokens: string[] = [];
+    let source = "";
+    parts.forEach((part) => {
+      if (part.token) {
+        source += patternMap[part.text];
+        tokens.push(part.text);
+      } else {
+        source += literal(part.text);
+      }
+    });
+
+    const result = new RegExp(
+      strict ? `^${source}$` : `^${source}`,
+      strict ? "u" : "iu"
+    ).exec(strict ? input : input.trim());
+    if (!result) {
+      return new Date(NaN);
+    }
+
+    const wall: WallClock = {
+      year: 1970,
+      month: 1,
+      day: 1,
+      hour: 0,
+      minute: 0,
+      second: 0,
+      millisecond: 0,
+    };
+    let hour12Value: number | undefined;
+    let meridiem: string | undefined;
+    let weekday: number | undefined;
+    let zone: string | undefined;
+    let isoWeek: number | undefined;
+    let isoWeekYear: number | undefined;
+    let localeWeek: number | undefined;
+    let quarter: number | undefined;
+    let dayOfYear: number | undefined;
+    let zoneId: TimeZone | undefined;
+    let epoch: number | undefined;
+    let era: number | undefined;
+
+    tokens.forEach((token, i) => {
+      const value = result[i + 1];
+      const n = parseInt(value, 10);
+      switch (token) {
+        case "YYYY":
+          wall.year = n;
+          break;
+        case "YY":
+          wall.year = n + (n > 68 ? 1900 : 2000);
+          break;
+        case "MMMM":
+          wall.month = (findName(monthNames, value) % 12) + 1;
+          break;
+        case "MMM":
+          wall.month = (findName(monthShortNames, value) % 12) + 1;
+          break;
+        case "MM":
+        case "M":
+          wall.month = n;
+          break;
+        case "DD":
+        case "D":
+        case "Do":
+          wall.day = n;
+          break;
+        case "Q":
+          quarter = n;
+          break;
+        case "G":
+          era = findName(eraNames, value);
+          break;
+        case "GGGG":
+          era = findName(eraLongNames, value);
+          break;
+        case "DDDD":
+          dayOfYear = n;
+          break;
+        case "dddd":
+          weekday = findName(dayNames, value);
+          break;
+        case "ddd":
+          weekday = findName(dayShortNames, value);
+          break;
+        case "HH":
+        case "H":
+          wall.hour = n;
+          break;
+        case "hh":
+        case "h":
+          if (useHour12) {
+            hour12Value = n;
+          } else {
+            wall.hour = n;
+          }
+          break;
+        case "mm":
+        case "m":
+          wall.minute = n;
+          break;
+        case "ss":
+        case "s":
+          wall.second = n;
+          break;
+        case "SSS":
+        case "SS":
+        case "S":
+          wall.millisecond = n * 10 ** (3 - token.length);
+          break;
+        case "A":
+        case "a":
+          meridiem =
+            findName(dayPeriodNames, value) === 1 ? "PM" : value.toUpperCase();
+          break;
+        case "Z":
+        case "ZZ":
+        case "XXX":
+          zone = value;
+          break;
+        case "z":
+          zoneId = value;
+          break;
+        case "X":
+          epoch = Math.round(parseFloat(value) * 1000);
+          break;
+        case "x":
+          epoch = n;
+          break;
+        case "W":
+        case "WW":
+          isoWeek = n;
+          break;
+        case "w":
+        case "ww":
+          localeWeek = n;
+          break;
+        case "RRRR":
+          isoWeekYear = n;
+          break;
+      }
+    });
+
+    // An epoch timestamp fixes the instant on its own
+    if (epoch !== undefined) {
+      return new Date(epoch);
+    }
+
+    if (hour12Value !== undefined) {
+      wall.hour = (hour12Value % 12) + (meridiem === "PM" ? 12 : 0);
+    }
+    // Years before the common era count back from 1 BC, which is year 0
+    if (era === 0) {
+      wall.year = 1 - wall.year;
+    }
+    const setDate = (epochDay: number) => {
+      const day = new Date(epochDay * DAY_MS);
+      wall.year = day.getUTCFullYear();
+      wall.month = day.getUTCMonth() + 1;
+      wall.day = day.getUTCDate();
+    };
 
-  // Create a date in the target timezone
-  const tzDate =
-    timeZone === "UTC" ? d : new Date(d.toLocaleString("en-US", { timeZone }));
+    // A quarter stands in for a missing month
+    if (quarter !== undefined) {
+      const hasMonth = tokens.some((token) => /^M{1,4}$/.test(token));
+      if (!hasMonth) {
+        wall.month = quarter * 3 - 2;
+      } else if (strict && Math.ceil(wall.month / 3) !== quarter) {
+        return new Date(NaN);
+      }
+    }
 
-  // Always use tzDate for hour and AM/PM, but use UTC fields for UTC
-  let hour24, minute, second;
-  if (timeZone === "UTC") {
-    hour24 = d.getUTCHours();
-    minute = d.getUTCMinutes().toString().padStart(2, "0");
-    second = d.getUTCSeconds().toString().padStart(2, "0");
-  } else {
-    hour24 = tzDate.getHours();
-    minute = tzDate.getMinutes().toString().padStart(2, "0");
-    second = tzDate.getSeconds().toString().padStart(2, "0");
-  }
-  const hour12str = useHour12
-    ? (hour24 % 12 || 12).toString().padStart(2, "0")
-    : hour24.toString().padStart(2, "0");
-  const ampm = useHour12 ? (hour24 >= 12 ? "PM" : "AM") : "";
-  const ampmLower = ampm.toLowerCase();
-
-  const formatter = new Intl.DateTimeFormat(locale, {
-    timeZone,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    weekday: "long",
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: useHour12,
-    timeZoneName: "short",
-  });
+    // A day of the year replaces the month and day
+    if (dayOfYear !== undefined) {
+      const yearStart = toEpochDay(wall.year, 1, 1);
+      const yearLength = toEpochDay(wall.year + 1, 1, 1) - yearStart;
+      if (strict && (dayOfYear < 1 || dayOfYear > yearLength)) {
+        return new Date(NaN);
+      }
+      setDate(yearStart + dayOfYear - 1);
+    }
 
-  const parts = formatter.formatToParts(d);
-  const values: Record<string, string> = {};
-  parts.forEach((part) => {
-    values[part.type] = part.value;
-  });
+    // A week replaces the month and day; the weekday picks a day within it
+    if (
+      isoWeek !== undefined ||
+      isoWeekYear !== undefined ||
+      localeWeek !== undefined
+    ) {
+      const iso = localeWeek === undefined;
+      const rules = iso ? ISO_WEEK : getWeekInfo(locale);
+      const week = (iso ? isoWeek : localeWeek) ?? 1;
+      const weekYear = (iso ? isoWeekYear : undefined) ?? wall.year;
+      const weekStart = getWeekOneStart(weekYear, rules) + (week - 1) * 7;
+      if (
+        strict &&
+        (week < 1 || weekStart >= getWeekOneStart(weekYear + 1, rules))
+      ) {
+        return new Date(NaN);
+      }
+      const offset =
+        weekday === undefined ? 0 : (weekday - rules.firstDay + 7) % 7;
+      setDate(weekStart + offset);
+    }
 
-  // Get month and day names
-  const monthFormatter = new Intl.DateTimeFormat(locale, {
-    month: "long",
-    timeZone,
-  });
-  const monthShortFormatter = new Intl.DateTimeFormat(locale, {
-    month: "short",
-    timeZone,
-  });
-  const dayFormatter = new Intl.DateTimeFormat(locale, {
-    weekday: "long",
-    timeZone,
-  });
-  const dayShortFormatter = new Intl.DateTimeFormat(locale, {
-    weekday: "short",
-    timeZone,
-  });
+    if (
+      strict &&
+      (wall.month < 1 ||
+        wall.month > 12 ||
+        wall.day < 1 ||
+        wall.day > daysInMonth(wall.year, wall.month) ||
+        wall.hour > 23 ||
+        wall.minute > 59 ||
+        wall.second > 59 ||
+        (hour12Value !== undefined && (hour12Value < 1 || hour12Value > 12)) ||
+        (weekday !== undefined &&
+          new Date(wallClockToUTC(wall)).getUTCDay() !== weekday))
+    ) {
+      return new Date(NaN);
+    }
 
-  const monthName = monthFormatter.format(tzDate);
-  const monthShortName = monthShortFormatter.format(tzDate);
-  const dayName = dayFormatter.format(tzDate);
-  const dayShortName = dayShortFormatter.format(tzDate);
-
-  // Ensure month is always 2 digits
-  const month = values.month.padStart(2, "0");
-
-  // Build a token map
-  const tokenMap: Record<string, string> = {
-    YYYY: values.year,
-    YY: values.year.slice(-2),
-    MMMM: monthName,
-    MMM: monthShortName,
-    MM: month,
-    DD: values.day,
-    dddd: dayName,
-    ddd: dayShortName,
-    HH: hour24.toString().padStart(2, "0"),
-    hh: hour12str,
-    mm: minute,
-    ss: second,
-    A: ampm,
-    a: ampmLower,
-    Z: values.timeZoneName || "",
-  };
+    const offset = zone === undefined ? undefined : parseOffset(zone);
+    if (offset !== undefined) {
+      return new Date(wallClockToUTC(wall) - offset);
+    }
 
-  // Replace tokens using a single regex
-  const tokenRegex = /YYYY|MMMM|dddd|MMM|ddd|YY|MM|DD|HH|hh|mm|ss|A|a|Z/g;
-  const result = fmt.replace(tokenRegex, (match) => tokenMap[match] ?? match);
-  return result;
+    // A named zone picks the matching instant of an overlap
+    const wallTimeZone = zoneId ?? timeZone;
+    const candidates = getWallClockCandidates(wall, wallTimeZone).filter(
+      (time) =>
+        zone === undefined ||
+        getTimeZoneName(new Date(time), wallTimeZone, locale) === zone
+    );
+    if (candidates.length > 0) {
+      return new Date(candidates[0]);
+    }
+    return strict
+      ? new Date(NaN)
+      : new Date(resolveWallClock(wall, wallTimeZone));
+  } catch {
+    return new Date(NaN);
+  }
 }
 
 /**
  * Converts a date to a specific timezone
+ * @deprecated The result is a different instant whose host-local fields show
+ * the wall-clock time in `timeZone`; use `utcToZonedTime` to read wall-clock
+ * fields and `zonedTimeToUtc` to convert them back
  * @param date - The date to convert
  * @param timeZone - Target timezone
- * @returns New date in the target timezone
+ * @returns Date whose host-local fields match the target timezone
  */
 export function toTimezone(
   date: Date | string | number,
   timeZone: TimeZone
 ): Date {
   try {
-    const d = new Date(date);
-
-    // Handle UTC conversion
     if (timeZone === "UTC") {
-      return new Date(
-        Date.UTC(
-          d.getUTCFullYear(),
-          d.getUTCMonth(),
-          d.getUTCDate(),
-          d.getUTCHours(),
-          d.getUTCMinutes(),
-          d.getUTCSeconds()
-        )
-      );
+      return new Date(date);
     }
-
-    const options: Intl.DateTimeFormatOptions = {
-      timeZone,
-      year: "numeric",
-      month: "numeric",
-      day: "numeric",
-      hour: "numeric",
-      minute: "numeric",
-      second: "numeric",
-      hour12: false,
-    };
-
-    const formatter = new Intl.DateTimeFormat("en-US", options);
-    const parts = formatter.formatToParts(d);
-    const values: Record<string, number> = {};
-
-    parts.forEach((part) => {
-      if (part.type !== "literal") {
-        values[part.type] = parseInt(part.value, 10);
-      }
-    });
-
+    const zoned = utcToZonedTime(date, timeZone);
     return new Date(
-      values.year,
-      values.month - 1,
-      values.day,
-      values.hour,
-      values.minute,
-      values.second
+      zoned.year,
+      zoned.month - 1,
+      zoned.day,
+      zoned.hour,
+      zoned.minute,
+      zoned.second,
+      zoned.millisecond
     );
   } catch {
     return new Date(date);
@@ -404,92 +1698,322 @@ export function getTimezoneOffset(
   timeZone: TimeZone
 ): number {
   try {
-    const d = new Date(date);
-    const utcDate = new Date(d.toLocaleString("en-US", { timeZone: "UTC" }));
-    const tzDate = new Date(d.toLocaleString("en-US", { timeZone }));
-    return (tzDate.getTime() - utcDate.getTime()) / 60000;
+    return utcToZonedTime(date, timeZone).offset;
   } catch {
     return 0;
   }
 }
 
 /**
- * Gets a list of available locales
- * @returns Array of locale strings
+ * Gets the calendar systems accepted by the `calendar` option
+ * @returns Array of calendar identifiers, such as "gregory" or "hebrew"
  */
-export function getAvailableLocales(): string[] {
+export function getAvailableCalendars(): string[] {
   return Intl.supportedValuesOf("calendar");
 }
 
 /**
- * Adds time to a date
+ * Calendars with leap months, whose months are counted rather than read
+ */
+const LUNISOLAR_CALENDARS = ["chinese", "dangi", "hebrew"];
+
+const calendarFormatters = createIntlCache<string, Intl.DateTimeFormat>(64);
+
+/**
+ * Gets a formatter for the era, year, month and day of a calendar
+ * @throws RangeError for an unknown calendar
+ */
+function getCalendarFormatter(
+  calendar: string,
+  timeZone: TimeZone
+): Intl.DateTimeFormat {
+  return calendarFormatters.get(`${calendar}|${timeZone}`, () => {
+    // Intl silently falls back to the Gregorian calendar
+    if (!getAvailableCalendars().includes(calendar)) {
+      throw new RangeError(`Invalid calendar: ${calendar}`);
+    }
+    return new Intl.DateTimeFormat("en-US-u-nu-latn", {
+      calendar,
+      timeZone,
+      era: "short",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+    });
+  });
+}
+
+/**
+ * Reads the date fields of an instant in a calendar system
+ * @param date - The date
+ * @param calendar - Calendar identifier, see `getAvailableCalendars`
+ * @param timeZone - Timezone the date is read in (default: "UTC")
+ * @returns Calendar fields, or null for invalid dates
+ * @throws RangeError for an unknown calendar
+ */
+export function getCalendarFields(
+  date: Date | string | number,
+  calendar: string,
+  timeZone: TimeZone = "UTC"
+): CalendarFields | null {
+  const formatter = getCalendarFormatter(calendar, timeZone);
+  const d = new Date(date);
+  if (isNaN(d.getTime())) {
+    return null;
+  }
+
+  const read = (time: number): Record<string, string> => {
+    const values: Record<string, string> = {};
+    formatter.formatToParts(time).forEach((part) => {
+      values[part.type] = part.value;
+    });
+    // Chinese and Dangi years are cyclic; Intl adds the Gregorian year
+    return { ...values, year: values.relatedYear ?? values.year };
+  };
+  const parts = read(d.getTime());
+  let month = parseInt(parts.month, 10);
+  if (LUNISOLAR_CALENDARS.includes(calendar)) {
+    // Intl names these months ("Adar II", "02bis"), so count the month
+    // changes back to the new year; a 20-day step cannot skip a month
+    month = 1;
+    let label = parts.month;
+    for (let time = d.getTime() - 20 * DAY_MS; ; time -= 20 * DAY_MS) {
+      const earlier = read(time);
+      if (earlier.year !== parts.year) {
+        break;
+      }
+      if (earlier.month !== label) {
+        month += 1;
+        label = earlier.month;
+      }
+    }
+  }
+
+  return {
+    calendar,
+    era: parts.era ?? "",
+    year: parseInt(parts.year, 10),
+    month,
+    day: parseInt(parts.day, 10),
+  };
+}
+
+/**
+ * Gets the number of months in a calendar unit, or 0 for exact units
+ */
+function monthsPerUnit(unit: TimeUnit): number {
+  switch (unit) {
+    case "years":
+      return 12;
+    case "quarters":
+      return 3;
+    case "months":
+      return 1;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Milliseconds per unit; hours and below are exact units
+ */
+const UNIT_MS: Partial<Record<TimeUnit, number>> = {
+  weeks: 604_800_000,
+  days: DAY_MS,
+  hours: 3_600_000,
+  minutes: 60_000,
+  seconds: 1000,
+  milliseconds: 1,
+};
+
+/**
+ * Checks if a unit measures absolute elapsed time rather than calendar time
+ */
+function isExactUnit(unit: TimeUnit): boolean {
+  return monthsPerUnit(unit) === 0 && unit !== "weeks" && unit !== "days";
+}
+
+/**
+ * Counts the whole calendar months from date2 to date1: the largest n for
+ * which date2 + n months does not pass date1. Spans are measured forward from
+ * the earlier date, so swapping the dates only flips the sign.
+ */
+function diffMonths(date1: Date, date2: Date, timeZone: TimeZone): number {
+  if (isNaN(date1.getTime()) || isNaN(date2.getTime())) {
+    return NaN;
+  }
+  if (date1 < date2) {
+    return 0 - diffMonths(date2, date1, timeZone);
+  }
+  const wall1 = getWallClock(date1, timeZone);
+  const wall2 = getWallClock(date2, timeZone);
+  let months = (wall1.year - wall2.year) * 12 + (wall1.month - wall2.month);
+  const shifted = (n: number) =>
+    add(date2, n, "months", { timeZone }).getTime();
+  while (shifted(months) > date1.getTime()) {
+    months--;
+  }
+  while (shifted(months + 1) <= date1.getTime()) {
+    months++;
+  }
+  return months;
+}
+
+/**
+ * Shifts the wall-clock date in a timezone by whole months (clamping the day
+ * of month) and then by whole days, keeping the time of day
+ */
+function addCalendar(
+  date: Date,
+  months: number,
+  days: number,
+  timeZone: TimeZone,
+  disambiguation: Disambiguation
+): number {
+  const wall = getWallClock(date, timeZone);
+  if (months !== 0) {
+    const month = wall.month - 1 + months;
+    wall.year += Math.floor(month / 12);
+    wall.month = (((month % 12) + 12) % 12) + 1;
+    wall.day = Math.min(wall.day, daysInMonth(wall.year, wall.month));
+  }
+  wall.day += days;
+  return resolveWallClock(wall, timeZone, disambiguation);
+}
+
+/**
+ * Adds time to a date. Calendar units (days and up) keep the wall-clock time
+ * in `options.timeZone` across DST transitions; a result that falls into a gap
+ * or overlap resolves by `options.disambiguation`. Exact units (hours and
+ * below) add absolute elapsed time.
+ *
+ * Months, quarters and years keep the day of month, clamped to the last day of
+ * shorter months (Jan 31 + 1 month = Feb 29 in a leap year). A Duration adds
+ * its years and months first, then its weeks and days, then its exact fields.
  * @param date - The date to add time to
- * @param n - Number of units to add
- * @param unit - Time unit to add
+ * @param n - Number of units to add, or a Duration
+ * @param unit - Time unit to add (omitted for a Duration)
+ * @param options - Timezone options (default timezone: "UTC")
  * @returns New date with time added
  */
 export function add(
   date: Date | string | number,
   n: number,
-  unit: TimeUnit
+  unit: TimeUnit,
+  options?: TimeZoneOptions
+): Date;
+export function add(
+  date: Date | string | number,
+  duration: Duration,
+  options?: TimeZoneOptions
+): Date;
+export function add(
+  date: Date | string | number,
+  n: number | Duration,
+  unitOrOptions?: TimeUnit | TimeZoneOptions,
+  options: TimeZoneOptions = {}
 ): Date {
+  if (n instanceof Duration) {
+    const { timeZone = "UTC", disambiguation = "compatible" } =
+      (unitOrOptions as TimeZoneOptions | undefined) ?? {};
+    const d = new Date(date);
+    if (isNaN(d.getTime())) {
+      return d;
+    }
+    const calendar = addCalendar(
+      d,
+      n.years * 12 + n.months,
+      n.weeks * 7 + n.days,
+      timeZone,
+      disambiguation
+    );
+    return new Date(
+      calendar +
+        n.hours * 3_600_000 +
+        n.minutes * 60_000 +
+        n.seconds * 1000 +
+        n.milliseconds
+    );
+  }
+
+  const unit = unitOrOptions as TimeUnit;
+  const { timeZone = "UTC", disambiguation = "compatible" } = options;
   const d = new Date(date);
-  switch (unit) {
-    case "days":
-      d.setDate(d.getDate() + n);
-      break;
-    case "hours":
-      d.setHours(d.getHours() + n);
-      break;
-    case "minutes":
-      d.setMinutes(d.getMinutes() + n);
-      break;
-    case "seconds":
-      d.setSeconds(d.getSeconds() + n);
-      break;
-    case "milliseconds":
-      d.setMilliseconds(d.getMilliseconds() + n);
-      break;
+  if (isExactUnit(unit) || isNaN(d.getTime())) {
+    return new Date(d.getTime() + n * (UNIT_MS[unit] || 0));
   }
-  return d;
+
+  const monthsInUnit = monthsPerUnit(unit);
+  return new Date(
+    monthsInUnit > 0
+      ? addCalendar(d, n * monthsInUnit, 0, timeZone, disambiguation)
+      : addCalendar(
+          d,
+          0,
+          unit === "weeks" ? n * 7 : n,
+          timeZone,
+          disambiguation
+        )
+  );
 }
 
 /**
  * Subtracts time from a date
  * @param date - The date to subtract time from
- * @param n - Number of units to subtract
- * @param unit - Time unit to subtract
+ * @param n - Number of units to subtract, or a Duration
+ * @param unit - Time unit to subtract (omitted for a Duration)
+ * @param options - Timezone options (default timezone: "UTC")
  * @returns New date with time subtracted
  */
 export function subtract(
   date: Date | string | number,
   n: number,
-  unit: TimeUnit
+  unit: TimeUnit,
+  options?: TimeZoneOptions
+): Date;
+export function subtract(
+  date: Date | string | number,
+  duration: Duration,
+  options?: TimeZoneOptions
+): Date;
+export function subtract(
+  date: Date | string | number,
+  n: number | Duration,
+  unitOrOptions?: TimeUnit | TimeZoneOptions,
+  options: TimeZoneOptions = {}
 ): Date {
-  return add(date, -n, unit);
+  if (n instanceof Duration) {
+    return add(date, n.negate(), unitOrOptions as TimeZoneOptions | undefined);
+  }
+  return add(date, -n, unitOrOptions as TimeUnit, options);
 }
 
 /**
- * Calculates the difference between two dates
+ * Calculates the difference between two dates. Months, quarters and years
+ * count whole calendar units in `options.timeZone`, so Jan 31 to Feb 29 is one
+ * month, and round toward zero, so swapping the dates only flips the sign.
  * @param date1 - First date
  * @param date2 - Second date
  * @param unit - Time unit for the difference (default: "milliseconds")
+ * @param options - Timezone options (default timezone: "UTC")
  * @returns Difference in the specified unit
  */
 export function diff(
   date1: Date | string | number,
   date2: Date | string | number,
-  unit: TimeUnit = "milliseconds"
+  unit: TimeUnit = "milliseconds",
+  options: TimeZoneOptions = {}
 ): number {
+  const monthsInUnit = monthsPerUnit(unit);
+  if (monthsInUnit > 0) {
+    const { timeZone = "UTC" } = options;
+    const months = diffMonths(new Date(date1), new Date(date2), timeZone);
+    // Adding 0 turns the -0 of a short negative span into 0
+    return Math.trunc(months / monthsInUnit) + 0;
+  }
+
   const delta = new Date(date1).getTime() - new Date(date2).getTime();
-  const map: Record<TimeUnit, number> = {
-    milliseconds: 1,
-    seconds: 1000,
-    minutes: 60_000,
-    hours: 3_600_000,
-    days: 86_400_000,
-  };
-  return Math.floor(delta / (map[unit] || 1));
+  return Math.floor(delta / (UNIT_MS[unit] || 1));
 }
 
 /**
@@ -519,58 +2043,460 @@ export function isAfter(
 }
 
 /**
- * Returns the start of the specified unit
+ * Week conventions of a locale
+ */
+interface WeekInfo {
+  /** First day of the week (0 = Sunday ... 6 = Saturday) */
+  firstDay: number;
+  /** Days of the new year that week 1 must contain */
+  minimalDays: number;
+}
+
+/**
+ * ISO 8601 weeks: Monday to Sunday, week 1 holds the first Thursday
+ */
+const ISO_WEEK: WeekInfo = { firstDay: 1, minimalDays: 4 };
+
+/**
+ * Gets the week conventions of a locale, falling back to ISO 8601 for tags
+ * `Intl.Locale` rejects
+ */
+function getWeekInfo(locale: Locale): WeekInfo {
+  try {
+    const { firstDayOfWeek, minimalDays } = getLocaleInfo(locale);
+    return { firstDay: firstDayOfWeek, minimalDays };
+  } catch {
+    return ISO_WEEK;
+  }
+}
+
+/**
+ * Gets the epoch day on which week 1 of a week-numbering year starts
+ */
+function getWeekOneStart(year: number, week: WeekInfo): number {
+  const january1 = toEpochDay(year, 1, 1);
+  // 1970-01-01 was a Thursday
+  const weekday = (((january1 + 4) % 7) + 7) % 7;
+  const start = january1 - ((weekday - week.firstDay + 7) % 7);
+  // The week holding January 1 is week 1 only if enough of it is in the year
+  return start + 7 - january1 >= week.minimalDays ? start : start + 7;
+}
+
+/**
+ * Numbers the week holding a calendar date; days around New Year can belong
+ * to a week of the adjacent year
+ */
+function getWeekFields(
+  year: number,
+  month: number,
+  day: number,
+  week: WeekInfo
+): { week: number; weekYear: number } {
+  const epochDay = toEpochDay(year, month, day);
+  let weekYear = year;
+  if (epochDay >= getWeekOneStart(year + 1, week)) {
+    weekYear += 1;
+  } else if (epochDay < getWeekOneStart(year, week)) {
+    weekYear -= 1;
+  }
+  return {
+    week: Math.floor((epochDay - getWeekOneStart(weekYear, week)) / 7) + 1,
+    weekYear,
+  };
+}
+
+/**
+ * Returns the start of the specified unit in `options.timeZone`. Units of an
+ * hour and below truncate the elapsed time; larger units resolve the local
+ * boundary with "compatible" disambiguation, so a midnight skipped by DST
+ * starts the day at the first wall-clock time that exists.
  * @param date - The date to get the start of
  * @param unit - Time unit to get the start of
+ * @param options - Timezone and week options (default timezone: "UTC")
  * @returns New date at the start of the specified unit
  */
 export function startOf(
   date: Date | string | number,
-  unit: "day" | "hour" | "minute"
+  unit: StartOfUnit,
+  options: StartOfOptions = {}
 ): Date {
+  const {
+    timeZone = "UTC",
+    locale = "en-US",
+    weekStartsOn = getWeekInfo(locale).firstDay,
+  } = options;
   const d = new Date(date);
+  if (isNaN(d.getTime())) {
+    return d;
+  }
+
+  const wall = getWallClock(d, timeZone);
   switch (unit) {
-    case "day":
-      d.setUTCHours(0, 0, 0, 0);
-      break;
+    case "second":
+      return new Date(d.getTime() - wall.millisecond);
+    case "minute":
+      return new Date(d.getTime() - wall.second * 1000 - wall.millisecond);
     case "hour":
-      d.setUTCMinutes(0, 0, 0);
+      return new Date(
+        d.getTime() -
+          wall.minute * 60_000 -
+          wall.second * 1000 -
+          wall.millisecond
+      );
+    case "year":
+      wall.month = 1;
+      wall.day = 1;
       break;
-    case "minute":
-      d.setUTCSeconds(0, 0);
+    case "quarter":
+      wall.month -= (wall.month - 1) % 3;
+      wall.day = 1;
       break;
+    case "month":
+      wall.day = 1;
+      break;
+    case "week": {
+      const weekday = new Date(wallClockToUTC(wall)).getUTCDay();
+      wall.day -= (weekday - weekStartsOn + 7) % 7;
+      break;
+    }
+  }
+  wall.hour = 0;
+  wall.minute = 0;
+  wall.second = 0;
+  wall.millisecond = 0;
+  return new Date(resolveWallClock(wall, timeZone));
+}
+
+/**
+ * Returns the end of the specified unit in `options.timeZone`: the last
+ * millisecond before the start of the next unit
+ * @param date - The date to get the end of
+ * @param unit - Time unit to get the end of
+ * @param options - Timezone and week options (default timezone: "UTC")
+ * @returns New date at the end of the specified unit
+ */
+export function endOf(
+  date: Date | string | number,
+  unit: StartOfUnit,
+  options: StartOfOptions = {}
+): Date {
+  const { timeZone = "UTC" } = options;
+  const start = startOf(date, unit, options);
+  const next = add(start, 1, `${unit}s` as TimeUnit, { timeZone });
+  return new Date(startOf(next, unit, options).getTime() - 1);
+}
+
+/**
+ * Gets the ISO 8601 week number: weeks start on Monday and week 1 holds the
+ * year's first Thursday, so December 29-31 can be in week 1 of the next year
+ * and January 1-3 in week 52 or 53 of the previous one
+ * @param date - The date
+ * @param options - Timezone the date is read in (default: "UTC")
+ * @returns Week number (1-53), or NaN for invalid dates
+ */
+export function getISOWeek(
+  date: Date | string | number,
+  options: Pick<StartOfOptions, "timeZone"> = {}
+): number {
+  const { timeZone = "UTC" } = options;
+  const d = new Date(date);
+  if (isNaN(d.getTime())) {
+    return NaN;
+  }
+  const wall = getWallClock(d, timeZone);
+  return getWeekFields(wall.year, wall.month, wall.day, ISO_WEEK).week;
+}
+
+/**
+ * Gets the year an ISO 8601 week belongs to, which differs from the calendar
+ * year for a few days around New Year
+ * @param date - The date
+ * @param options - Timezone the date is read in (default: "UTC")
+ * @returns ISO week-numbering year, or NaN for invalid dates
+ */
+export function getISOWeekYear(
+  date: Date | string | number,
+  options: Pick<StartOfOptions, "timeZone"> = {}
+): number {
+  const { timeZone = "UTC" } = options;
+  const d = new Date(date);
+  if (isNaN(d.getTime())) {
+    return NaN;
+  }
+  const wall = getWallClock(d, timeZone);
+  return getWeekFields(wall.year, wall.month, wall.day, ISO_WEEK).weekYear;
+}
+
+/**
+ * Gets the week number under a locale's conventions. Without options, en-US
+ * weeks start on Sunday and number from the week holding January 1, while
+ * de-DE weeks match ISO 8601.
+ * @param date - The date
+ * @param options - Week rules, or a locale to take them from, and the
+ * timezone the date is read in (default timezone: "UTC")
+ * @returns Week number (1-53), or NaN for invalid dates
+ */
+export function getWeek(
+  date: Date | string | number,
+  options: WeekOptions = {}
+): number {
+  const { timeZone = "UTC", locale = "en-US" } = options;
+  const d = new Date(date);
+  if (isNaN(d.getTime())) {
+    return NaN;
+  }
+  const localeWeek = getWeekInfo(locale);
+  const {
+    weekStartsOn = localeWeek.firstDay,
+    firstWeekContainsDate = localeWeek.minimalDays,
+  } = options;
+  const wall = getWallClock(d, timeZone);
+  return getWeekFields(wall.year, wall.month, wall.day, {
+    firstDay: weekStartsOn,
+    minimalDays: firstWeekContainsDate,
+  }).week;
+}
+
+/**
+ * Moves a date to the same weekday and wall-clock time in another ISO 8601
+ * week of its ISO week-numbering year; weeks past the last one continue into
+ * the next year
+ * @param date - The date
+ * @param week - Target ISO week
+ * @param options - Timezone and DST disambiguation (default timezone: "UTC")
+ * @returns New date, or an invalid Date for invalid dates
+ * @throws RangeError if week is not an integer
+ */
+export function setISOWeek(
+  date: Date | string | number,
+  week: number,
+  options: TimeZoneOptions = {}
+): Date {
+  if (!Number.isInteger(week)) {
+    throw new RangeError(`Invalid week: ${week}`);
+  }
+  const current = getISOWeek(date, options);
+  if (isNaN(current)) {
+    return new Date(NaN);
   }
-  return d;
+  return add(date, (week - current) * 7, "days", options);
 }
 
 /**
- * Returns a human-readable string representing the time difference
+ * Relative time units from smallest to largest, with their average length
+ */
+const RELATIVE_UNITS: [
+  keyof RelativeTimeThresholds,
+  Intl.RelativeTimeFormatUnit,
+  number,
+][] = [
+  ["s", "second", 1000],
+  ["m", "minute", 60_000],
+  ["h", "hour", 3_600_000],
+  ["d", "day", DAY_MS],
+  ["w", "week", 604_800_000],
+  ["M", "month", 2_629_800_000],
+];
+
+const DEFAULT_THRESHOLDS: RelativeTimeThresholds = {
+  ss: 10,
+  s: 60,
+  m: 60,
+  h: 24,
+  d: 7,
+  w: 4,
+  M: 12,
+};
+
+/**
+ * Returns a human-readable string representing the time difference. The
+ * difference is shown in the smallest unit whose rounded value stays below
+ * that unit's threshold, falling back to years.
  * @param date - The date to compare
  * @param now - The reference date (defaults to current date)
- * @param options - Formatting options
+ * @param options - Formatting and threshold options
  * @returns Human-readable time difference string
  */
 export function fromNow(
   date: Date | string | number,
   now: Date | string | number = new Date(),
-  options: FormatOptions = {}
+  options: FromNowOptions = {}
 ): string {
   try {
-    const { locale = "en-US" } = options;
-    const deltaSec = Math.floor(
-      (new Date(date).getTime() - new Date(now).getTime()) / 1000
-    );
-    const abs = Math.abs(deltaSec);
+    const {
+      locale = "en-US",
+      numeric = "auto",
+      rounding = "round",
+      nowText,
+    } = options;
+    const thresholds = { ...DEFAULT_THRESHOLDS, ...options.thresholds };
+    const delta = new Date(date).getTime() - new Date(now).getTime();
+    if (isNaN(delta)) {
+      return "Invalid Date";
+    }
+
+    const sign = delta < 0 ? -1 : 1;
+    const count = (size: number) =>
+      Math.abs(Math[rounding](Math.abs(delta) / size));
+
+    if (count(1000) < thresholds.ss) {
+      return (
+        nowText ??
+        new Intl.RelativeTimeFormat(locale, { numeric: "auto" }).format(
+          0,
+          "second"
+        )
+      );
+    }
+
+    const rtf = new Intl.RelativeTimeFormat(locale, { numeric });
+    for (const [key, unit, size] of RELATIVE_UNITS) {
+      if (count(size) < thresholds[key]) {
+        return rtf.format(sign * count(size), unit);
+      }
+    }
+    return rtf.format(sign * count(31_557_600_000), "year");
+  } catch {
+    return "Invalid Date";
+  }
+}
+
+/**
+ * Formats a date and time with the locale's own connector ("Thursday at
+ * 3:04 PM", "Donnerstag um 15:04"), putting `label` in place of the date
+ */
+function formatAtTime(
+  date: Date,
+  label: string,
+  locale: Locale,
+  timeZone: TimeZone,
+  hour12: boolean | undefined
+): string {
+  const parts = getDateTimeFormat(locale, {
+    dateStyle: "long",
+    timeStyle: "short",
+    timeZone,
+    hour12,
+  }).formatToParts(date);
+  const isDatePart = (part: Intl.DateTimeFormatPart) =>
+    ["era", "year", "month", "day", "weekday"].includes(part.type);
+  const first = parts.findIndex(isDatePart);
+  const last = parts.length - 1 - [...parts].reverse().findIndex(isDatePart);
+  const text = [
+    ...parts.slice(0, first).map((part) => part.value),
+    label,
+    ...parts.slice(last + 1).map((part) => part.value),
+  ].join("");
+  return text.charAt(0).toLocaleUpperCase(locale) + text.slice(1);
+}
+
+/**
+ * Returns a calendar-style label relative to a reference date, such as
+ * "Today at 9:15 AM", "Yesterday at 3:04 PM", "Last Monday at 3:04 PM" or
+ * "Next Friday at 3:04 PM", and the `L` date (such as "03/01/2024") for
+ * anything further away. Days are counted in `options.timeZone`; words come
+ * from `Intl`, except the "Last"/"Next" prefixes, which only English locales
+ * have, so other locales show the `sameElse` date for last and next week.
+ * @param date - The date to describe
+ * @param reference - The reference date (defaults to current date)
+ * @param options - Formatting options and per-bucket overrides
+ * @returns Calendar-style label
+ */
+export function calendar(
+  date: Date | string | number,
+  reference: Date | string | number = new Date(),
+  options: CalendarOptions = {}
+): string {
+  const { locale = "en-US", timeZone = "UTC", hour12, formats = {} } = options;
+
+  try {
+    const d = new Date(date);
+    const ref = new Date(reference);
+    if (isNaN(d.getTime()) || isNaN(ref.getTime())) {
+      return "Invalid Date";
+    }
 
-    const rtf = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+    // Count calendar days between the two wall-clock dates
+    const dayNumber = (value: Date) => {
+      const wall = getWallClock(value, timeZone);
+      return Math.round(
+        wallClockToUTC({
+          ...wall,
+          hour: 0,
+          minute: 0,
+          second: 0,
+          millisecond: 0,
+        }) / DAY_MS
+      );
+    };
+    const days = dayNumber(d) - dayNumber(ref);
+    const bucket: CalendarBucket =
+      days < -6
+        ? "sameElse"
+        : days < -1
+          ? "lastWeek"
+          : days < 0
+            ? "lastDay"
+            : days < 1
+              ? "sameDay"
+              : days < 2
+                ? "nextDay"
+                : days < 7
+                  ? "nextWeek"
+                  : "sameElse";
+
+    const render = (bucket: CalendarBucket): string => {
+      const custom = formats[bucket];
+      if (typeof custom === "function") {
+        return custom(d, ref);
+      }
+      if (typeof custom === "string") {
+        return format(d, custom, options);
+      }
 
-    if (abs < 10) return "just now";
-    if (abs < 60)
-      return deltaSec < 0 ? rtf.format(-1, "second") : rtf.format(1, "second");
-    if (abs < 3600) return rtf.format(Math.floor(deltaSec / 60), "minute");
-    if (abs < 86400) return rtf.format(Math.floor(deltaSec / 3600), "hour");
-    return rtf.format(Math.floor(deltaSec / 86400), "day");
+      switch (bucket) {
+        case "sameElse":
+          return format(d, "L", options);
+        case "lastWeek":
+        case "nextWeek": {
+          // A bare weekday reads the same for last and next week, so locales
+          // without a "Last"/"Next" phrase here show the date instead
+          if (new Intl.Locale(locale).language !== "en") {
+            return render("sameElse");
+          }
+          const weekday = getDateTimeFormat(locale, {
+            weekday: "long",
+            timeZone,
+          }).format(d);
+          const prefix = bucket === "lastWeek" ? "Last " : "Next ";
+          return formatAtTime(d, prefix + weekday, locale, timeZone, hour12);
+        }
+        default: {
+          const rtf = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+          return formatAtTime(
+            d,
+            rtf.format(days, "day"),
+            locale,
+            timeZone,
+            hour12
+          );
+        }
+      }
+    };
+    return render(bucket);
   } catch {
     return "Invalid Date";
   }
 }
+
+export * from "./daykit";
+export * from "./duration";
+export * from "./plain";
+export * from "./business";
+export * from "./holidays";
+export * from "./schedule";
+export * from "./rrule";
+export * from "./cron";
+export * from "./interval";
+export * from "./range";
+export * from "./locale";
@@ -0,0 +1,388 @@
+import { add, startOf } from "./index";
+import type { StartOfOptions, StartOfUnit, TimeUnit } from "./index";
+
+/**
+ * Which ends of an interval belong to it: "[" and "]" include the bound, "("
+ * and ")" exclude it
+ */
+export type IntervalBounds = "[)" | "[]" | "(]" | "()";
+
+/**
+ * Options for an interval
+ */
+export interface IntervalOptions {
+  /** Included ends (default: "[)", the start but not the end) */
+  bounds?: IntervalBounds;
+}
+
+/**
+ * One end of an interval
+ */
+interface Bound {
+  time: number;
+  inclusive: boolean;
+}
+
+/**
+ * Picks the more restrictive of two lower bounds (or the looser, for `loose`)
+ */
+function pickLower(a: Bound, b: Bound, loose = false): Bound {
+  if (a.time !== b.time) {
+    const later = a.time > b.time ? a : b;
+    return loose ? (later === a ? b : a) : later;
+  }
+  return {
+    time: a.time,
+    inclusive: loose ? a.inclusive || b.inclusive : a.inclusive && b.inclusive,
+  };
+}
+
+/**
+ * Picks the more restrictive of two upper bounds (or the looser, for `loose`)
+ */
+function pickUpper(a: Bound, b: Bound, loose = false): Bound {
+  if (a.time !== b.time) {
+    const earlier = a.time < b.time ? a : b;
+    return loose ? (earlier === a ? b : a) : earlier;
+  }
+  return {
+    time: a.time,
+    inclusive: loose ? a.inclusive || b.inclusive : a.inclusive && b.inclusive,
+  };
+}
+
+/**
+ * Builds an interval from bounds, or null if it would be empty
+ */
+function fromBounds(lower: Bound, upper: Bound): Interval | null {
+  if (
+    lower.time > upper.time ||
+    (lower.time === upper.time && !(lower.inclusive && upper.inclusive))
+  ) {
+    return null;
+  }
+  const bounds = `${lower.inclusive ? "[" : "("}${
+    upper.inclusive ? "]" : ")"
+  }` as IntervalBounds;
+  return new Interval(lower.time, upper.time, { bounds });
+}
+
+/**
+ * Immutable span of time between two instants, with each end included or
+ * excluded. The default "[)" bounds make back-to-back intervals such as
+ * bookings or days abut without overlapping.
+ */
+export class Interval {
+  readonly bounds: IntervalBounds;
+  private readonly startTime: number;
+  private readonly endTime: number;
+
+  /**
+   * Creates an interval; prefer the `interval` factory
+   * @param start - First instant
+   * @param end - Last instant, not before start
+   * @param options - Included ends
+   * @throws RangeError for invalid dates, an end before the start or
+   * unknown bounds
+   */
+  constructor(
+    start: Date | string | number,
+    end: Date | string | number,
+    options: IntervalOptions = {}
+  ) {
+    const { bounds = "[)" } = options;
+    this.startTime = new Date(start).getTime();
+    this.endTime = new Date(end).getTime();
+    if (isNaN(this.startTime) || isNaN(this.endTime)) {
+      throw new RangeError(`Invalid interval: ${start} - ${end}`);
+    }
+    if (this.endTime < this.startTime) {
+      throw new RangeError(
+        `Interval end ${this.end.toISOString()} is before its start ${this.start.toISOString()}`
+      );
+    }
+    if (!["[)", "[]", "(]", "()"].includes(bounds)) {
+      throw new RangeError(`Invalid interval bounds: ${bounds}`);
+    }
+    this.bounds = bounds;
+    Object.freeze(this);
+  }
+
+  /**
+   * Orders intervals by start, then end, for use with `Array#sort`
+   * @returns Negative, zero or positive
+   */
+  static compare(a: Interval, b: Interval): number {
+    const byStart = a.startTime - b.startTime;
+    if (byStart !== 0) {
+      return byStart;
+    }
+    if (a.lower.inclusive !== b.lower.inclusive) {
+      return a.lower.inclusive ? -1 : 1;
+    }
+    const byEnd = a.endTime - b.endTime;
+    if (byEnd !== 0) {
+      return byEnd;
+    }
+    return Number(a.upper.inclusive) - Number(b.upper.inclusive);
+  }
+
+  /**
+   * First instant, as a new Date on every read
+   */
+  get start(): Date {
+    return new Date(this.startTime);
+  }
+
+  /**
+   * Last instant, as a new Date on every read
+   */
+  get end(): Date {
+    return new Date(this.endTime);
+  }
+
+  /**
+   * Length in milliseconds
+   */
+  get length(): number {
+    return this.endTime - this.startTime;
+  }
+
+  /**
+   * Checks if the interval holds no instant, like [t, t)
+   */
+  isEmpty(): boolean {
+    return fromBounds(this.lower, this.upper) === null;
+  }
+
+  /**
+   * Checks if an instant or a whole interval lies inside the interval
+   * @param value - Instant or interval
+   * @returns True if contained, false for invalid dates
+   */
+  contains(value: Interval | Date | string | number): boolean {
+    if (value instanceof Interval) {
+      if (value.isEmpty()) {
+        return false;
+      }
+      const lower = pickLower(this.lower, value.lower);
+      const upper = pickUpper(this.upper, value.upper);
+      return (
+        lower.time === value.start.getTime() &&
+        lower.inclusive === value.lower.inclusive &&
+        upper.time === value.end.getTime() &&
+        upper.inclusive === value.upper.inclusive
+      );
+    }
+    const time = new Date(value).getTime();
+    return (
+      (time > this.lower.time ||
+        (time === this.lower.time && this.lower.inclusive)) &&
+      (time < this.upper.time ||
+        (time === this.upper.time && this.upper.inclusive))
+    );
+  }
+
+  /**
+   * Checks if the intervals share at least one instant
+   */
+  overlaps(other: Interval): boolean {
+    return this.intersection(other) !== null;
+  }
+
+  /**
+   * Checks if the intervals touch without overlapping or leaving a gap, like
+   * [9:00, 10:00) and [10:00, 11:00)
+   */
+  abuts(other: Interval): boolean {
+    const touches = (a: Bound, b: Bound) =>
+      a.time === b.time && a.inclusive !== b.inclusive;
+    return touches(this.upper, other.lower) || touches(other.upper, this.lower);
+  }
+
+  /**
+   * Gets the span both intervals cover
+   * @returns The shared interval, or null if they do not overlap
+   */
+  intersection(other: Interval): Interval | null {
+    return fromBounds(
+      pickLower(this.lower, other.lower),
+      pickUpper(this.upper, other.upper)
+    );
+  }
+
+  /**
+   * Joins overlapping or abutting intervals
+   * @returns The combined interval, or null if there is a gap between them
+   */
+  union(other: Interval): Interval | null {
+    if (!this.overlaps(other) && !this.abuts(other)) {
+      return null;
+    }
+    return fromBounds(
+      pickLower(this.lower, other.lower, true),
+      pickUpper(this.upper, other.upper, true)
+    );
+  }
+
+  /**
+   * Removes another interval's span
+   * @returns The remaining pieces in order: none, one, or two when the other
+   * interval lies strictly inside
+   */
+  difference(other: Interval): Interval[] {
+    if (!this.overlaps(other)) {
+      return this.isEmpty() ? [] : [this];
+    }
+    const before = fromBounds(
+      this.lower,
+      pickUpper(this.upper, {
+        time: other.start.getTime(),
+        inclusive: !other.lower.inclusive,
+      })
+    );
+    const after = fromBounds(
+      pickLower(this.lower, {
+        time: other.end.getTime(),
+        inclusive: !other.upper.inclusive,
+      }),
+      this.upper
+    );
+    return [before, after].filter((piece): piece is Interval => piece !== null);
+  }
+
+  /**
+   * Splits at local unit boundaries, so "day" buckets run from midnight to
+   * midnight in `options.timeZone` even across DST changes
+   * @param unit - Unit whose starts split the interval
+   * @param options - Timezone and week options (default timezone: "UTC")
+   * @returns Consecutive pieces; the first and last keep the interval's bounds
+   */
+  splitBy(unit: StartOfUnit, options: StartOfOptions = {}): Interval[] {
+    const { timeZone = "UTC" } = options;
+    const boundaries: number[] = [];
+    let boundary = startOf(this.start, unit, options);
+    while (boundary.getTime() < this.endTime) {
+      if (boundary.getTime() > this.startTime) {
+        boundaries.push(boundary.getTime());
+      }
+      // Realigning skips a boundary moved by a DST gap back onto the unit
+      const next = add(boundary, 1, `${unit}s` as TimeUnit, { timeZone });
+      boundary = startOf(next, unit, options);
+    }
+    return this.splitAt(boundaries);
+  }
+
+  /**
+   * Splits at the given instants; those outside the interval are ignored
+   * @param dates - Instants to split at
+   * @returns Consecutive [) pieces; the first and last keep the interval's
+   * bounds
+   */
+  splitAt(dates: Iterable<Date | string | number>): Interval[] {
+    const cuts = [...dates]
+      .map((date) => new Date(date).getTime())
+      .filter((time) => time > this.lower.time && time < this.upper.time)
+      .sort((a, b) => a - b);
+    const points = [...new Set(cuts)];
+    if (points.length === 0) {
+      return [this];
+    }
+    const pieces: Interval[] = [];
+    let lower = this.lower;
+    points.forEach((time) => {
+      pieces.push(fromBounds(lower, { time, inclusive: false }) as Interval);
+      lower = { time, inclusive: true };
+    });
+    pieces.push(fromBounds(lower, this.upper) as Interval);
+    return pieces;
+  }
+
+  /**
+   * Splits into pieces of equal length, rounded to the millisecond
+   * @param n - Number of pieces
+   * @returns n consecutive pieces, or fewer for intervals shorter than n ms
+   * @throws RangeError if n is not a positive integer
+   */
+  divideEqually(n: number): Interval[] {
+    if (!Number.isInteger(n) || n < 1) {
+      throw new RangeError(`Invalid number of pieces: ${n}`);
+    }
+    return this.splitAt(
+      Array.from({ length: n - 1 }, (_, i) =>
+        Math.round(this.startTime + (this.length * (i + 1)) / n)
+      )
+    );
+  }
+
+  /**
+   * Checks if both intervals have the same ends and bounds
+   */
+  equals(other: Interval): boolean {
+    return Interval.compare(this, other) === 0;
+  }
+
+  /**
+   * Formats as an ISO 8601 interval such as
+   * "2024-03-21T09:00:00.000Z/2024-03-21T10:00:00.000Z"; bounds are not
+   * included
+   */
+  toString(): string {
+    return `${this.start.toISOString()}/${this.end.toISOString()}`;
+  }
+
+  /**
+   * Serializes as an ISO 8601 interval
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private get lower(): Bound {
+    return { time: this.startTime, inclusive: this.bounds[0] === "[" };
+  }
+
+  private get upper(): Bound {
+    return { time: this.endTime, inclusive: this.bounds[1] === "]" };
+  }
+}
+
+/**
+ * Creates an interval
+ * @param start - First instant
+ * @param end - Last instant, not before start
+ * @param options - Included ends (default: "[)")
+ * @returns A new Interval
+ * @throws RangeError for invalid dates, an end before the start or unknown
+ * bounds
+ */
+export function interval(
+  start: Date | string | number,
+  end: Date | string | number,
+  options: IntervalOptions = {}
+): Interval {
+  return new Interval(start, end, options);
+}
+
+/**
+ * Normalizes intervals: merges those that overlap or abut and drops empty
+ * ones, for example to total the coverage of overlapping shifts
+ * @param intervals - Intervals in any order
+ * @returns Sorted, disjoint intervals
+ */
+export function mergeAll(intervals: Iterable<Interval>): Interval[] {
+  const merged: Interval[] = [];
+  [...intervals]
+    .filter((item) => !item.isEmpty())
+    .sort(Interval.compare)
+    .forEach((item) => {
+      const last = merged[merged.length - 1];
+      const union = last?.union(item);
+      if (union) {
+        merged[merged.length - 1] = union;
+      } else {
+        merged.push(item);
+      }
+    });
+  return merged;
+}
@@ -0,0 +1,297 @@
+import { createIntlCache } from "./cache";
+import type { Locale } from "./index";
+
+/**
+ * Width of month and weekday names
+ */
+export type NameStyle = "long" | "short" | "narrow";
+
+/**
+ * Calendar and text conventions of a locale
+ */
+export interface LocaleInfo {
+  /** First day of the week (0 = Sunday ... 6 = Saturday) */
+  firstDayOfWeek: number;
+  /** Weekend days (0 = Sunday ... 6 = Saturday) */
+  weekend: number[];
+  /** Days of the new year that week 1 must contain (1-7) */
+  minimalDays: number;
+  /** Clock the locale shows hours on */
+  hourCycle: "h11" | "h12" | "h23" | "h24";
+  /** Direction of the locale's script */
+  direction: "ltr" | "rtl";
+}
+
+/**
+ * Options for getWeekdayNames
+ */
+export interface WeekdayNamesOptions {
+  /** Day the list starts on (0 = Sunday ... 6 = Saturday, default: the locale's) */
+  weekStartsOn?: number;
+}
+
+/**
+ * Week conventions as `Intl.Locale#weekInfo` reports them, numbering
+ * weekdays from 1 (Monday) to 7 (Sunday)
+ */
+interface IntlWeekInfo {
+  firstDay: number;
+  weekend: number[];
+  minimalDays: number;
+}
+
+type IntlLocale = Intl.Locale & {
+  weekInfo?: IntlWeekInfo;
+  getWeekInfo?: () => IntlWeekInfo;
+  textInfo?: { direction: "ltr" | "rtl" };
+  getTextInfo?: () => { direction: "ltr" | "rtl" };
+};
+
+/*
+ * Fallback week data by region, copied from the CLDR 47 supplemental
+ * weekData (as shipped with ICU 77) with deprecated region codes left out.
+ * Runtimes with `Intl.Locale#weekInfo` read their own CLDR copy instead.
+ */
+
+/**
+ * Regions whose weeks start on Sunday, Saturday or Friday; the rest start on
+ * Monday
+ */
+const SUNDAY_REGIONS = new Set(
+  "AG AS BD BR BS BT BW BZ CA CO DM DO ET GT GU HK HN ID IL IN JM JP KE KH KR LA MH MM MO MT MX MZ NI NP PA PE PH PK PR PT PY SA SG SV TH TT TW UM US VE VI WS YE ZA ZW".split(
+    " "
+  )
+);
+const SATURDAY_REGIONS = new Set(
+  "AF BH DJ DZ EG IQ IR JO KW LY OM QA SD SY".split(" ")
+);
+const FRIDAY_REGIONS = new Set(["MV"]);
+
+/**
+ * Regions whose week 1 must hold four days of the new year; the rest count
+ * the week holding January 1
+ */
+const FOUR_DAY_REGIONS = new Set(
+  "AD AT AX BE BG CH CZ DE DK EE ES FI FJ FO FR GB GF GG GI GP GR HU IE IM IS IT JE LI LT LU MC MQ NL NO PL PT RE RU SE SJ SK SM VA".split(
+    " "
+  )
+);
+
+/**
+ * Regions with a Friday-Saturday weekend
+ */
+const FRIDAY_WEEKEND_REGIONS = new Set(
+  "BH DZ EG IL IQ JO KW LY OM QA SA SD SY YE".split(" ")
+);
+
+/**
+ * Other weekends, numbered as `Intl.Locale#weekInfo` numbers them
+ */
+const OTHER_WEEKENDS: Record<string, number[]> = {
+  AF: [4, 5],
+  IN: [7],
+  IR: [5],
+  UG: [7],
+};
+
+/**
+ * Scripts written right to left
+ */
+const RTL_SCRIPTS = ["Adlm", "Arab", "Hebr", "Nkoo", "Rohg", "Syrc", "Thaa"];
+
+/**
+ * Curated list of widely used locales behind getAvailableLocales; `Intl`
+ * cannot list every locale a runtime supports
+ */
+const COMMON_LOCALES = [
+  "ar-EG",
+  "ar-SA",
+  "bg-BG",
+  "bn-BD",
+  "ca-ES",
+  "cs-CZ",
+  "da-DK",
+  "de-AT",
+  "de-CH",
+  "de-DE",
+  "el-GR",
+  "en-AU",
+  "en-CA",
+  "en-GB",
+  "en-IE",
+  "en-IN",
+  "en-NZ",
+  "en-US",
+  "en-ZA",
+  "es-AR",
+  "es-ES",
+  "es-MX",
+  "es-US",
+  "et-EE",
+  "fa-IR",
+  "fi-FI",
+  "fil-PH",
+  "fr-BE",
+  "fr-CA",
+  "fr-CH",
+  "fr-FR",
+  "he-IL",
+  "hi-IN",
+  "hr-HR",
+  "hu-HU",
+  "id-ID",
+  "it-IT",
+  "ja-JP",
+  "ko-KR",
+  "lt-LT",
+  "lv-LV",
+  "ms-MY",
+  "nb-NO",
+  "nl-BE",
+  "nl-NL",
+  "pl-PL",
+  "pt-BR",
+  "pt-PT",
+  "ro-RO",
+  "ru-RU",
+  "sk-SK",
+  "sl-SI",
+  "sr-RS",
+  "sv-SE",
+  "sw-KE",
+  "ta-IN",
+  "th-TH",
+  "tr-TR",
+  "uk-UA",
+  "ur-PK",
+  "vi-VN",
+  "zh-CN",
+  "zh-HK",
+  "zh-TW",
+];
+
+const localeInfoCache = createIntlCache<Locale, LocaleInfo>(64);
+const namesCache = createIntlCache<string, string[]>(128);
+
+/**
+ * Derives week conventions from the locale's likely region for runtimes
+ * without `Intl.Locale#weekInfo`
+ */
+function getFallbackWeekInfo(intlLocale: Intl.Locale): IntlWeekInfo {
+  const region = intlLocale.maximize().region ?? "";
+  let firstDay = 1;
+  if (SUNDAY_REGIONS.has(region)) {
+    firstDay = 7;
+  } else if (SATURDAY_REGIONS.has(region)) {
+    firstDay = 6;
+  } else if (FRIDAY_REGIONS.has(region)) {
+    firstDay = 5;
+  }
+  return {
+    firstDay,
+    weekend: Object.hasOwn(OTHER_WEEKENDS, region)
+      ? OTHER_WEEKENDS[region]
+      : FRIDAY_WEEKEND_REGIONS.has(region)
+        ? [5, 6]
+        : [6, 7],
+    minimalDays: FOUR_DAY_REGIONS.has(region) ? 4 : 1,
+  };
+}
+
+/**
+ * Gets the calendar and text conventions of a locale, such as the first day
+ * of the week for a date picker. Week data comes from `Intl.Locale#weekInfo`
+ * where the runtime has it and from the locale's likely region otherwise.
+ * @param locale - Locale tag (default: "en-US")
+ * @returns Locale conventions
+ * @throws RangeError for an invalid locale tag
+ */
+export function getLocaleInfo(locale: Locale = "en-US"): LocaleInfo {
+  const info = localeInfoCache.get(locale, () => {
+    const intlLocale = new Intl.Locale(locale) as IntlLocale;
+    const weekInfo =
+      intlLocale.getWeekInfo?.() ??
+      intlLocale.weekInfo ??
+      getFallbackWeekInfo(intlLocale);
+    const textInfo = intlLocale.getTextInfo?.() ?? intlLocale.textInfo;
+    const script = intlLocale.maximize().script ?? "";
+    return {
+      // Intl numbers weekdays from 1 (Monday) to 7 (Sunday)
+      firstDayOfWeek: weekInfo.firstDay % 7,
+      weekend: weekInfo.weekend.map((day) => day % 7).sort((a, b) => a - b),
+      minimalDays: weekInfo.minimalDays,
+      hourCycle:
+        new Intl.DateTimeFormat(locale, { hour: "numeric" }).resolvedOptions()
+          .hourCycle ?? "h23",
+      direction:
+        textInfo?.direction ?? (RTL_SCRIPTS.includes(script) ? "rtl" : "ltr"),
+    };
+  });
+  return { ...info, weekend: [...info.weekend] };
+}
+
+/**
+ * Builds Gregorian month or weekday names once per locale and style
+ */
+function getNameList(
+  locale: Locale,
+  field: "month" | "weekday",
+  style: NameStyle
+): string[] {
+  return namesCache.get(`${locale}|${field}|${style}`, () => {
+    const formatter = new Intl.DateTimeFormat(locale, {
+      [field]: style,
+      timeZone: "UTC",
+      calendar: "gregory",
+    });
+    // January 7, 2024 was a Sunday
+    return Array.from({ length: field === "month" ? 12 : 7 }, (_, i) =>
+      formatter.format(
+        field === "month" ? Date.UTC(2024, i, 15) : Date.UTC(2024, 0, 7 + i)
+      )
+    );
+  });
+}
+
+/**
+ * Gets the Gregorian month names of a locale
+ * @param locale - Locale tag (default: "en-US")
+ * @param style - Name width (default: "long")
+ * @returns Twelve names from January
+ * @throws RangeError for an invalid locale tag
+ */
+export function getMonthNames(
+  locale: Locale = "en-US",
+  style: NameStyle = "long"
+): string[] {
+  return [...getNameList(locale, "month", style)];
+}
+
+/**
+ * Gets the weekday names of a locale, in the order a calendar header shows
+ * them
+ * @param locale - Locale tag (default: "en-US")
+ * @param style - Name width (default: "long")
+ * @param options - Day the list starts on (default: the locale's first day)
+ * @returns Seven names
+ * @throws RangeError for an invalid locale tag
+ */
+export function getWeekdayNames(
+  locale: Locale = "en-US",
+  style: NameStyle = "long",
+  options: WeekdayNamesOptions = {}
+): string[] {
+  const { weekStartsOn = getLocaleInfo(locale).firstDayOfWeek } = options;
+  const names = getNameList(locale, "weekday", style);
+  return Array.from({ length: 7 }, (_, i) => names[(weekStartsOn + i) % 7]);
+}
+
+/**
+ * Gets a curated subset of locales for pickers: about 60 widely used tags,
+ * kept if the runtime can format dates in them. `Intl` has no way to list
+ * every supported locale, and any other valid tag works with the library too.
+ * @returns Locale tags such as "en-US" or "de-DE"
+ */
+export function getAvailableLocales(): string[] {
+  return Intl.DateTimeFormat.supportedLocalesOf(COMMON_LOCALES);
+}
@@ -0,0 +1,727 @@
+import { add, diff, format, utcToZonedTime, zonedTimeToUtc } from "./index";
+import { daysInMonth } from "./calendar-math";
+import { Duration } from "./duration";
+import type {
+  FormatOptions,
+  TimeUnit,
+  TimeZone,
+  ZonedTimeOptions,
+} from "./index";
+
+/**
+ * Fields of a calendar date (month is 1-based)
+ */
+export interface PlainDateFields {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Fields of a time of day
+ */
+export interface PlainTimeFields {
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+/**
+ * Fields of a date and time of day
+ */
+export type PlainDateTimeFields = PlainDateFields & PlainTimeFields;
+
+/**
+ * Formatting options for plain values; they have no timezone
+ */
+export type PlainFormatOptions = Omit<FormatOptions, "timeZone">;
+
+/**
+ * Options for PlainTime#toInstant
+ */
+export interface PlainTimeInstantOptions extends ZonedTimeOptions {
+  /** Date the time falls on (default: today in the timezone) */
+  date?: PlainDate;
+}
+
+const ISO_DATE = "([+-]\\d{6}|\\d{4})-(\\d{2})-(\\d{2})";
+const ISO_TIME = "(\\d{2}):(\\d{2})(?::(\\d{2})(?:[.,](\\d{1,9}))?)?";
+
+/**
+ * Counts milliseconds from the epoch as if the fields were UTC
+ */
+function toEpoch(fields: PlainDateTimeFields): number {
+  const d = new Date(0);
+  d.setUTCFullYear(fields.year, fields.month - 1, fields.day);
+  d.setUTCHours(fields.hour, fields.minute, fields.second, fields.millisecond);
+  return d.getTime();
+}
+
+/**
+ * Reads the UTC fields of a date produced by `toEpoch` arithmetic
+ */
+function fromEpoch(date: Date): PlainDateTimeFields {
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+/**
+ * Reads the wall-clock fields of an instant, rejecting invalid dates
+ */
+function fromInstantFields(
+  date: Date | string | number,
+  timeZone: TimeZone
+): PlainDateTimeFields {
+  const zoned = utcToZonedTime(date, timeZone);
+  if (isNaN(zoned.year)) {
+    throw new RangeError("Invalid Date");
+  }
+  return zoned;
+}
+
+/**
+ * Applies `add` with TimeUnit or Duration semantics in UTC
+ */
+function shift(time: number, n: number | Duration, unit?: TimeUnit): Date {
+  return n instanceof Duration ? add(time, n) : add(time, n, unit as TimeUnit);
+}
+
+/**
+ * Orders two epoch values as -1, 0 or 1
+ */
+function compareEpochs(a: number, b: number): number {
+  return Math.sign(a - b);
+}
+
+function pad(value: number, length = 2): string {
+  return value.toString().padStart(length, "0");
+}
+
+function formatDate({ year, month, day }: PlainDateFields): string {
+  const yearText =
+    year < 0 || year > 9999
+      ? `${year < 0 ? "-" : "+"}${pad(Math.abs(year), 6)}`
+      : pad(year, 4);
+  return `${yearText}-${pad(month)}-${pad(day)}`;
+}
+
+function formatTime(fields: PlainTimeFields): string {
+  const time = `${pad(fields.hour)}:${pad(fields.minute)}:${pad(fields.second)}`;
+  return fields.millisecond ? `${time}.${pad(fields.millisecond, 3)}` : time;
+}
+
+function readDate(match: RegExpExecArray, offset: number): PlainDateFields {
+  return {
+    year: parseInt(match[offset], 10),
+    month: parseInt(match[offset + 1], 10),
+    day: parseInt(match[offset + 2], 10),
+  };
+}
+
+function readTime(match: RegExpExecArray, offset: number): PlainTimeFields {
+  return {
+    hour: parseInt(match[offset], 10),
+    minute: parseInt(match[offset + 1], 10),
+    second: parseInt(match[offset + 2] || "0", 10),
+    millisecond: parseInt(
+      (match[offset + 3] || "0").padEnd(3, "0").slice(0, 3),
+      10
+    ),
+  };
+}
+
+function checkDate({ year, month, day }: PlainDateFields): void {
+  const valid =
+    [year, month, day].every(Number.isInteger) &&
+    month >= 1 &&
+    month <= 12 &&
+    day >= 1 &&
+    day <= daysInMonth(year, month);
+  if (!valid) {
+    throw new RangeError(`Invalid plain date: ${year}-${month}-${day}`);
+  }
+}
+
+function checkTime({
+  hour,
+  minute,
+  second,
+  millisecond,
+}: PlainTimeFields): void {
+  const valid = [
+    [hour, 23],
+    [minute, 59],
+    [second, 59],
+    [millisecond, 999],
+  ].every(
+    ([value, max]) => Number.isInteger(value) && value >= 0 && value <= max
+  );
+  if (!valid) {
+    throw new RangeError(
+      `Invalid plain time: ${hour}:${minute}:${second}.${millisecond}`
+    );
+  }
+}
+
+/**
+ * Immutable calendar date without a time or timezone, such as a birthday or a
+ * holiday. "2024-03-21" stays March 21 wherever it is shown.
+ */
+export class PlainDate implements PlainDateFields {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+
+  /**
+   * Creates a new plain date; prefer the `plainDate` factory
+   * @param fields - Year, month (1-12) and day
+   * @throws RangeError if the date does not exist
+   */
+  constructor(fields: PlainDateFields) {
+    checkDate(fields);
+    this.year = fields.year;
+    this.month = fields.month;
+    this.day = fields.day;
+    Object.freeze(this);
+  }
+
+  /**
+   * Orders two plain dates, for use with `Array#sort`
+   * @returns Negative, zero or positive
+   */
+  static compare(a: PlainDate, b: PlainDate): number {
+    return compareEpochs(a.epoch, b.epoch);
+  }
+
+  /**
+   * Gets the calendar date of an instant in a timezone
+   * @param date - The instant
+   * @param timeZone - Timezone the date is read in (default: "UTC")
+   * @returns The date shown in the timezone
+   * @throws RangeError for an invalid date
+   */
+  static fromInstant(
+    date: Date | string | number,
+    timeZone: TimeZone = "UTC"
+  ): PlainDate {
+    return new PlainDate(fromInstantFields(date, timeZone));
+  }
+
+  /**
+   * Day of the week (0 = Sunday ... 6 = Saturday)
+   */
+  get dayOfWeek(): number {
+    return new Date(this.epoch).getUTCDay();
+  }
+
+  /**
+   * Adds time with the same semantics as `add`: months clamp to the end of
+   * the month, and time units count from midnight
+   * @param n - Number of units to add, or a Duration
+   * @param unit - Time unit to add (omitted for a Duration)
+   * @returns New plain date
+   */
+  add(n: number, unit: TimeUnit): PlainDate;
+  add(duration: Duration): PlainDate;
+  add(n: number | Duration, unit?: TimeUnit): PlainDate {
+    return new PlainDate(fromEpoch(shift(this.epoch, n, unit)));
+  }
+
+  /**
+   * Subtracts time with the same semantics as `subtract`
+   * @param n - Number of units to subtract, or a Duration
+   * @param unit - Time unit to subtract (omitted for a Duration)
+   * @returns New plain date
+   */
+  subtract(n: number, unit: TimeUnit): PlainDate;
+  subtract(duration: Duration): PlainDate;
+  subtract(n: number | Duration, unit?: TimeUnit): PlainDate {
+    return n instanceof Duration
+      ? this.add(n.negate())
+      : this.add(-n, unit as TimeUnit);
+  }
+
+  /**
+   * Calculates the difference to another date with the semantics of `diff`
+   * @param other - Date to compare against
+   * @param unit - Time unit for the difference (default: "days")
+   * @returns Difference in the specified unit
+   */
+  diff(other: PlainDate, unit: TimeUnit = "days"): number {
+    return diff(this.epoch, other.epoch, unit);
+  }
+
+  /**
+   * Checks if both dates are the same day
+   */
+  equals(other: PlainDate): boolean {
+    return this.epoch === other.epoch;
+  }
+
+  /**
+   * Checks if this date is before another
+   */
+  isBefore(other: PlainDate): boolean {
+    return this.epoch < other.epoch;
+  }
+
+  /**
+   * Checks if this date is after another
+   */
+  isAfter(other: PlainDate): boolean {
+    return this.epoch > other.epoch;
+  }
+
+  /**
+   * Combines the date with a time of day
+   * @param time - Time of day (default: midnight)
+   * @returns New plain date-time
+   */
+  at(time: PlainTime | Partial<PlainTimeFields> = {}): PlainDateTime {
+    return new PlainDateTime({ ...this, ...new PlainTime(time) });
+  }
+
+  /**
+   * Gets the first instant of the date in a timezone
+   * @param timeZone - Timezone of the date (default: "UTC")
+   * @param options - How to resolve a midnight skipped by DST
+   * @returns The instant the day starts
+   */
+  toInstant(timeZone: TimeZone = "UTC", options: ZonedTimeOptions = {}): Date {
+    return zonedTimeToUtc(this, timeZone, options);
+  }
+
+  /**
+   * Formats the date with `format` tokens; time tokens read midnight
+   * @param fmt - Format string (default: "YYYY-MM-DD")
+   * @param options - Formatting options
+   * @returns Formatted date string
+   */
+  format(fmt = "YYYY-MM-DD", options: PlainFormatOptions = {}): string {
+    return format(this.epoch, fmt, { ...options, timeZone: "UTC" });
+  }
+
+  /**
+   * Formats as an ISO 8601 date such as "2024-03-21"
+   */
+  toString(): string {
+    return formatDate(this);
+  }
+
+  /**
+   * Serializes as an ISO 8601 date
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private get epoch(): number {
+    return toEpoch({ ...this, hour: 0, minute: 0, second: 0, millisecond: 0 });
+  }
+}
+
+/**
+ * Immutable time of day without a date or timezone, such as an opening hour.
+ * Arithmetic wraps around midnight.
+ */
+export class PlainTime implements PlainTimeFields {
+  readonly hour: number;
+  readonly minute: number;
+  readonly second: number;
+  readonly millisecond: number;
+
+  /**
+   * Creates a new plain time; prefer the `plainTime` factory
+   * @param fields - Time fields, missing fields default to 0
+   * @throws RangeError if a field is out of range
+   */
+  constructor(fields: Partial<PlainTimeFields> = {}) {
+    const time: PlainTimeFields = {
+      hour: fields.hour ?? 0,
+      minute: fields.minute ?? 0,
+      second: fields.second ?? 0,
+      millisecond: fields.millisecond ?? 0,
+    };
+    checkTime(time);
+    this.hour = time.hour;
+    this.minute = time.minute;
+    this.second = time.second;
+    this.millisecond = time.millisecond;
+    Object.freeze(this);
+  }
+
+  /**
+   * Orders two plain times, for use with `Array#sort`
+   * @returns Negative, zero or positive
+   */
+  static compare(a: PlainTime, b: PlainTime): number {
+    return compareEpochs(a.epoch, b.epoch);
+  }
+
+  /**
+   * Gets the time of day of an instant in a timezone
+   * @param date - The instant
+   * @param timeZone - Timezone the time is read in (default: "UTC")
+   * @returns The wall-clock time in the timezone
+   * @throws RangeError for an invalid date
+   */
+  static fromInstant(
+    date: Date | string | number,
+    timeZone: TimeZone = "UTC"
+  ): PlainTime {
+    return new PlainTime(fromInstantFields(date, timeZone));
+  }
+
+  /**
+   * Adds time, wrapping around midnight; days and larger units have no effect
+   * @param n - Number of units to add, or a Duration
+   * @param unit - Time unit to add (omitted for a Duration)
+   * @returns New plain time
+   */
+  add(n: number, unit: TimeUnit): PlainTime;
+  add(duration: Duration): PlainTime;
+  add(n: number | Duration, unit?: TimeUnit): PlainTime {
+    return new PlainTime(fromEpoch(shift(this.epoch, n, unit)));
+  }
+
+  /**
+   * Subtracts time, wrapping around midnight
+   * @param n - Number of units to subtract, or a Duration
+   * @param unit - Time unit to subtract (omitted for a Duration)
+   * @returns New plain time
+   */
+  subtract(n: number, unit: TimeUnit): PlainTime;
+  subtract(duration: Duration): PlainTime;
+  subtract(n: number | Duration, unit?: TimeUnit): PlainTime {
+    return n instanceof Duration
+      ? this.add(n.negate())
+      : this.add(-n, unit as TimeUnit);
+  }
+
+  /**
+   * Calculates the difference to another time on the same day
+   * @param other - Time to compare against
+   * @param unit - Time unit for the difference (default: "milliseconds")
+   * @returns Difference in the specified unit
+   */
+  diff(other: PlainTime, unit: TimeUnit = "milliseconds"): number {
+    return diff(this.epoch, other.epoch, unit);
+  }
+
+  /**
+   * Checks if both times are equal
+   */
+  equals(other: PlainTime): boolean {
+    return this.epoch === other.epoch;
+  }
+
+  /**
+   * Checks if this time is earlier in the day than another
+   */
+  isBefore(other: PlainTime): boolean {
+    return this.epoch < other.epoch;
+  }
+
+  /**
+   * Checks if this time is later in the day than another
+   */
+  isAfter(other: PlainTime): boolean {
+    return this.epoch > other.epoch;
+  }
+
+  /**
+   * Gets the instant this time happens on a date in a timezone
+   * @param timeZone - Timezone of the time (default: "UTC")
+   * @param options - Date and DST disambiguation
+   * @returns The instant
+   */
+  toInstant(
+    timeZone: TimeZone = "UTC",
+    options: PlainTimeInstantOptions = {}
+  ): Date {
+    const { date = PlainDate.fromInstant(new Date(), timeZone) } = options;
+    return date.at(this).toInstant(timeZone, options);
+  }
+
+  /**
+   * Formats the time with `format` tokens; date tokens read 1970-01-01
+   * @param fmt - Format string (default: "HH:mm:ss")
+   * @param options - Formatting options
+   * @returns Formatted time string
+   */
+  format(fmt = "HH:mm:ss", options: PlainFormatOptions = {}): string {
+    return format(this.epoch, fmt, { ...options, timeZone: "UTC" });
+  }
+
+  /**
+   * Formats as an ISO 8601 time such as "09:30:00" or "09:30:00.250"
+   */
+  toString(): string {
+    return formatTime(this);
+  }
+
+  /**
+   * Serializes as an ISO 8601 time
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private get epoch(): number {
+    return toEpoch({ year: 1970, month: 1, day: 1, ...this });
+  }
+}
+
+/**
+ * Immutable date and time of day without a timezone, such as a meeting
+ * scheduled in whatever zone its attendees are in
+ */
+export class PlainDateTime implements PlainDateTimeFields {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+  readonly hour: number;
+  readonly minute: number;
+  readonly second: number;
+  readonly millisecond: number;
+
+  /**
+   * Creates a new plain date-time; prefer the `plainDateTime` factory
+   * @param fields - Date fields and time fields (time defaults to midnight)
+   * @throws RangeError if the date does not exist or a field is out of range
+   */
+  constructor(fields: PlainDateFields & Partial<PlainTimeFields>) {
+    const date = new PlainDate(fields);
+    const time = new PlainTime(fields);
+    this.year = date.year;
+    this.month = date.month;
+    this.day = date.day;
+    this.hour = time.hour;
+    this.minute = time.minute;
+    this.second = time.second;
+    this.millisecond = time.millisecond;
+    Object.freeze(this);
+  }
+
+  /**
+   * Orders two plain date-times, for use with `Array#sort`
+   * @returns Negative, zero or positive
+   */
+  static compare(a: PlainDateTime, b: PlainDateTime): number {
+    return compareEpochs(a.epoch, b.epoch);
+  }
+
+  /**
+   * Gets the wall-clock date and time of an instant in a timezone
+   * @param date - The instant
+   * @param timeZone - Timezone the fields are read in (default: "UTC")
+   * @returns The wall-clock date and time in the timezone
+   * @throws RangeError for an invalid date
+   */
+  static fromInstant(
+    date: Date | string | number,
+    timeZone: TimeZone = "UTC"
+  ): PlainDateTime {
+    return new PlainDateTime(fromInstantFields(date, timeZone));
+  }
+
+  /**
+   * Adds time with the same semantics as `add` in UTC, so a day is always
+   * 24 hours and months clamp to the end of the month
+   * @param n - Number of units to add, or a Duration
+   * @param unit - Time unit to add (omitted for a Duration)
+   * @returns New plain date-time
+   */
+  add(n: number, unit: TimeUnit): PlainDateTime;
+  add(duration: Duration): PlainDateTime;
+  add(n: number | Duration, unit?: TimeUnit): PlainDateTime {
+    return new PlainDateTime(fromEpoch(shift(this.epoch, n, unit)));
+  }
+
+  /**
+   * Subtracts time with the same semantics as `subtract` in UTC
+   * @param n - Number of units to subtract, or a Duration
+   * @param unit - Time unit to subtract (omitted for a Duration)
+   * @returns New plain date-time
+   */
+  subtract(n: number, unit: TimeUnit): PlainDateTime;
+  subtract(duration: Duration): PlainDateTime;
+  subtract(n: number | Duration, unit?: TimeUnit): PlainDateTime {
+    return n instanceof Duration
+      ? this.add(n.negate())
+      : this.add(-n, unit as TimeUnit);
+  }
+
+  /**
+   * Calculates the difference to another date-time with the semantics of
+   * `diff`
+   * @param other - Date-time to compare against
+   * @param unit - Time unit for the difference (default: "milliseconds")
+   * @returns Difference in the specified unit
+   */
+  diff(other: PlainDateTime, unit: TimeUnit = "milliseconds"): number {
+    return diff(this.epoch, other.epoch, unit);
+  }
+
+  /**
+   * Checks if both date-times are equal
+   */
+  equals(other: PlainDateTime): boolean {
+    return this.epoch === other.epoch;
+  }
+
+  /**
+   * Checks if this date-time is before another
+   */
+  isBefore(other: PlainDateTime): boolean {
+    return this.epoch < other.epoch;
+  }
+
+  /**
+   * Checks if this date-time is after another
+   */
+  isAfter(other: PlainDateTime): boolean {
+    return this.epoch > other.epoch;
+  }
+
+  /**
+   * Gets the date part
+   */
+  toPlainDate(): PlainDate {
+    return new PlainDate(this);
+  }
+
+  /**
+   * Gets the time part
+   */
+  toPlainTime(): PlainTime {
+    return new PlainTime(this);
+  }
+
+  /**
+   * Gets the instant this wall-clock time happens in a timezone
+   * @param timeZone - Timezone of the fields (default: "UTC")
+   * @param options - How to resolve times skipped or repeated by DST
+   * @returns The instant
+   * @throws RangeError with `disambiguation: "reject"` in a gap or overlap
+   */
+  toInstant(timeZone: TimeZone = "UTC", options: ZonedTimeOptions = {}): Date {
+    return zonedTimeToUtc(this, timeZone, options);
+  }
+
+  /**
+   * Formats the date-time with `format` tokens
+   * @param fmt - Format string (default: "YYYY-MM-DD HH:mm:ss")
+   * @param options - Formatting options
+   * @returns Formatted date-time string
+   */
+  format(fmt?: string, options: PlainFormatOptions = {}): string {
+    return format(this.epoch, fmt, { ...options, timeZone: "UTC" });
+  }
+
+  /**
+   * Formats as an ISO 8601 date-time such as "2024-03-21T09:30:00"
+   */
+  toString(): string {
+    return `${formatDate(this)}T${formatTime(this)}`;
+  }
+
+  /**
+   * Serializes as an ISO 8601 date-time
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private get epoch(): number {
+    return toEpoch(this);
+  }
+}
+
+/**
+ * Creates an immutable plain date
+ * @param fields - Year, month (1-12) and day
+ * @returns A new PlainDate
+ * @throws RangeError if the date does not exist
+ */
+export function plainDate(fields: PlainDateFields): PlainDate {
+  return new PlainDate(fields);
+}
+
+/**
+ * Creates an immutable plain time
+ * @param fields - Time fields, missing fields default to 0
+ * @returns A new PlainTime
+ * @throws RangeError if a field is out of range
+ */
+export function plainTime(fields: Partial<PlainTimeFields> = {}): PlainTime {
+  return new PlainTime(fields);
+}
+
+/**
+ * Creates an immutable plain date-time
+ * @param fields - Date fields and time fields (time defaults to midnight)
+ * @returns A new PlainDateTime
+ * @throws RangeError if the date does not exist or a field is out of range
+ */
+export function plainDateTime(
+  fields: PlainDateFields & Partial<PlainTimeFields>
+): PlainDateTime {
+  return new PlainDateTime(fields);
+}
+
+/**
+ * Parses an ISO 8601 date such as "2024-03-21"
+ * @param input - ISO 8601 date string
+ * @returns Parsed plain date
+ * @throws RangeError if the input is not an existing ISO 8601 date
+ */
+export function parsePlainDate(input: string): PlainDate {
+  const match = new RegExp(`^${ISO_DATE}$`).exec(input.trim());
+  if (!match) {
+    throw new RangeError(`Invalid ISO 8601 date: "${input}"`);
+  }
+  return new PlainDate(readDate(match, 1));
+}
+
+/**
+ * Parses an ISO 8601 time such as "09:30", "09:30:15" or "09:30:15.250"
+ * @param input - ISO 8601 time string
+ * @returns Parsed plain time
+ * @throws RangeError if the input is not a valid ISO 8601 time
+ */
+export function parsePlainTime(input: string): PlainTime {
+  const match = new RegExp(`^${ISO_TIME}$`).exec(input.trim());
+  if (!match) {
+    throw new RangeError(`Invalid ISO 8601 time: "${input}"`);
+  }
+  return new PlainTime(readTime(match, 1));
+}
+
+/**
+ * Parses an ISO 8601 date-time without offset such as "2024-03-21T09:30";
+ * a space may replace the "T" and the time may be omitted
+ * @param input - ISO 8601 date-time string
+ * @returns Parsed plain date-time
+ * @throws RangeError if the input is not a valid ISO 8601 date-time
+ */
+export function parsePlainDateTime(input: string): PlainDateTime {
+  const match = new RegExp(`^${ISO_DATE}(?:[T ]${ISO_TIME})?$`, "i").exec(
+    input.trim()
+  );
+  if (!match) {
+    throw new RangeError(`Invalid ISO 8601 date-time: "${input}"`);
+  }
+  return new PlainDateTime({
+    ...readDate(match, 1),
+    ...(match[4] ? readTime(match, 4) : {}),
+  });
+}
@@ -0,0 +1,208 @@
+import { add, startOf } from "./index";
+import type { Locale, StartOfOptions, StartOfUnit, TimeUnit } from "./index";
+import type { Interval } from "./interval";
+import { PlainDate } from "./plain";
+
+/**
+ * Options for range iteration
+ */
+export interface EachOptions extends StartOfOptions {
+  /** Units between yielded boundaries (default: 1) */
+  step?: number;
+}
+
+/**
+ * Options for eachWeekendOfMonth
+ */
+export interface WeekendOptions extends StartOfOptions {
+  /** Weekend days (0 = Sunday ... 6 = Saturday, default: [0, 6]) */
+  weekend?: number[];
+}
+
+/**
+ * Options for calendarMonthGrid
+ */
+export interface MonthGridOptions {
+  /** First day of the week (default: the locale's) */
+  weekStartsOn?: number;
+  /** Locale used for the default first day of the week (default: "en-US") */
+  locale?: Locale;
+}
+
+/**
+ * Lazily yields the starts of consecutive units in `options.timeZone`, from
+ * the unit containing `start` up to `end` inclusive. Boundaries are local, so
+ * days start at midnight on both sides of a DST change (or at the first
+ * wall-clock time after a skipped midnight).
+ * @param unit - Unit to step by
+ * @param start - First instant; its unit is the first yielded
+ * @param end - Last instant
+ * @param options - Step, timezone and week options (default timezone: "UTC")
+ * @returns Generator of unit starts; nothing for invalid dates or an end
+ * before the start
+ * @throws RangeError if step is not a positive integer
+ */
+export function each(
+  unit: StartOfUnit,
+  start: Date | string | number,
+  end: Date | string | number,
+  options: EachOptions = {}
+): Generator<Date> {
+  const { step = 1 } = options;
+  if (!Number.isInteger(step) || step < 1) {
+    throw new RangeError(`Invalid step: ${step}`);
+  }
+  return boundaries(unit, startOf(start, unit, options), end, options);
+}
+
+/**
+ * Yields unit starts from a first boundary up to an end
+ */
+function* boundaries(
+  unit: StartOfUnit,
+  first: Date,
+  end: Date | string | number,
+  options: EachOptions
+): Generator<Date> {
+  const { step = 1, timeZone = "UTC" } = options;
+  const last = new Date(end).getTime();
+  if (isNaN(first.getTime()) || isNaN(last)) {
+    return;
+  }
+  for (let i = 0; ; i += step) {
+    // Counting from the first boundary keeps month lengths and DST from
+    // accumulating drift
+    const boundary = startOf(
+      add(first, i, `${unit}s` as TimeUnit, { timeZone }),
+      unit,
+      options
+    );
+    if (boundary.getTime() > last) {
+      return;
+    }
+    yield boundary;
+  }
+}
+
+/**
+ * Lazily yields the start of each local day an interval touches; a day
+ * starting exactly at an excluded end is skipped
+ * @param interval - Interval to cover
+ * @param options - Step and timezone (default timezone: "UTC")
+ * @returns Generator of local midnights
+ */
+export function eachDayOfInterval(
+  interval: Interval,
+  options: EachOptions = {}
+): Generator<Date> {
+  const days = each("day", interval.start, interval.end, options);
+  const endExcluded = interval.bounds[1] === ")";
+  return (function* () {
+    for (const day of days) {
+      if (endExcluded && day.getTime() === interval.end.getTime()) {
+        return;
+      }
+      yield day;
+    }
+  })();
+}
+
+/**
+ * Lazily yields the start of each hour from `start` to `end`
+ * @param start - First instant
+ * @param end - Last instant
+ * @param options - Step and timezone (default timezone: "UTC")
+ * @returns Generator of hour starts
+ */
+export function eachHour(
+  start: Date | string | number,
+  end: Date | string | number,
+  options: EachOptions = {}
+): Generator<Date> {
+  return each("hour", start, end, options);
+}
+
+/**
+ * Lazily yields the start of each week from `start` to `end`
+ * @param start - First instant
+ * @param end - Last instant
+ * @param options - Step, timezone and first day of the week
+ * @returns Generator of week starts
+ */
+export function eachWeek(
+  start: Date | string | number,
+  end: Date | string | number,
+  options: EachOptions = {}
+): Generator<Date> {
+  return each("week", start, end, options);
+}
+
+/**
+ * Lazily yields the start of each month from `start` to `end`
+ * @param start - First instant
+ * @param end - Last instant
+ * @param options - Step and timezone (default timezone: "UTC")
+ * @returns Generator of month starts
+ */
+export function eachMonth(
+  start: Date | string | number,
+  end: Date | string | number,
+  options: EachOptions = {}
+): Generator<Date> {
+  return each("month", start, end, options);
+}
+
+/**
+ * Lazily yields the start of each weekend day of a month
+ * @param year - Year
+ * @param month - Month (1-12)
+ * @param options - Weekend days and timezone (default timezone: "UTC")
+ * @returns Generator of local midnights
+ * @throws RangeError for an invalid month
+ */
+export function eachWeekendOfMonth(
+  year: number,
+  month: number,
+  options: WeekendOptions = {}
+): Generator<Date> {
+  const { weekend = [0, 6], timeZone = "UTC" } = options;
+  const first = new PlainDate({ year, month, day: 1 });
+  const last = first.add(1, "months").subtract(1, "days");
+  const days = each(
+    "day",
+    first.toInstant(timeZone),
+    last.toInstant(timeZone),
+    options
+  );
+  return (function* () {
+    for (const day of days) {
+      if (weekend.includes(PlainDate.fromInstant(day, timeZone).dayOfWeek)) {
+        yield day;
+      }
+    }
+  })();
+}
+
+/**
+ * Builds the 6×7 grid of a month view, such as a date picker: six weeks
+ * starting on the week that holds the 1st, padded with days of the adjacent
+ * months
+ * @param year - Year
+ * @param month - Month (1-12)
+ * @param options - First day of the week, or a locale to take it from
+ * @returns Six rows of seven dates
+ * @throws RangeError for an invalid month
+ */
+export function calendarMonthGrid(
+  year: number,
+  month: number,
+  options: MonthGridOptions = {}
+): PlainDate[][] {
+  const first = new PlainDate({ year, month, day: 1 });
+  const gridStart = PlainDate.fromInstant(
+    startOf(first.toInstant(), "week", { ...options, timeZone: "UTC" })
+  );
+  return Array.from({ length: 6 }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => gridStart.add(week * 7 + day, "days"))
+  );
+}
@@ -0,0 +1,1001 @@
+import { utcToZonedTime, zonedTimeToUtc } from "./index";
+import { DAY_MS, daysInMonth, toEpochDay } from "./calendar-math";
+import type { TimeZone, ZonedTime } from "./index";
+
+/**
+ * Recurrence frequencies, from the longest period to the shortest
+ */
+export type Frequency =
+  | "YEARLY"
+  | "MONTHLY"
+  | "WEEKLY"
+  | "DAILY"
+  | "HOURLY"
+  | "MINUTELY"
+  | "SECONDLY";
+
+/**
+ * Two-letter RFC 5545 weekday codes
+ */
+export type Weekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+/**
+ * Options of a recurrence rule, named after the RFC 5545 rule parts
+ */
+export interface RRuleOptions {
+  freq: Frequency;
+  /** First occurrence; its wall-clock time in `timeZone` anchors the rule (default: now) */
+  dtstart?: Date | string | number;
+  /** Timezone occurrences are expanded in (default: "UTC") */
+  timeZone?: TimeZone;
+  /** Periods between occurrences (default: 1) */
+  interval?: number;
+  /** Maximum number of occurrences generated by the rule */
+  count?: number;
+  /** Last possible occurrence (inclusive) */
+  until?: Date | string | number;
+  /** Weekdays with optional ordinals, e.g. ["MO", "WE"] or ["-1FR"] */
+  byDay?: string[];
+  /** Days of the month, negative from the end (-1 = last day) */
+  byMonthDay?: number[];
+  /** Months (1-12) */
+  byMonth?: number[];
+  /** Days of the year, negative from the end */
+  byYearDay?: number[];
+  /** Week numbers (weeks start on `wkst`, week 1 has 4+ days of the year) */
+  byWeekNo?: number[];
+  byHour?: number[];
+  byMinute?: number[];
+  bySecond?: number[];
+  /** Positions within each period's occurrences, negative from the end */
+  bySetPos?: number[];
+  /** First day of the week (default: "MO") */
+  wkst?: Weekday;
+  /** Occurrences to remove */
+  exDates?: (Date | string | number)[];
+  /** Extra occurrences */
+  rDates?: (Date | string | number)[];
+}
+
+const FREQUENCIES: Frequency[] = [
+  "SECONDLY",
+  "MINUTELY",
+  "HOURLY",
+  "DAILY",
+  "WEEKLY",
+  "MONTHLY",
+  "YEARLY",
+];
+
+const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const MAX_YEAR = 9999;
+
+const SUB_DAILY_MS: Partial<Record<Frequency, number>> = {
+  HOURLY: 3_600_000,
+  MINUTELY: 60_000,
+  SECONDLY: 1000,
+};
+
+/**
+ * Validated rule with instants as timestamps
+ */
+interface Rule {
+  freq: Frequency;
+  dtstart: number;
+  timeZone: TimeZone;
+  interval: number;
+  count?: number;
+  until?: number;
+  byDay: { weekday: number; nth: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+  byYearDay: number[];
+  byWeekNo: number[];
+  byHour: number[];
+  byMinute: number[];
+  bySecond: number[];
+  bySetPos: number[];
+  wkst: number;
+  exDates: number[];
+  rDates: number[];
+}
+
+/**
+ * Day-level rule parts, after filling in defaults from DTSTART
+ */
+type DayParts = Pick<Rule, "byDay" | "byMonth" | "byMonthDay" | "byYearDay">;
+
+/**
+ * Calendar fields of an epoch day
+ */
+interface DayFields {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  yearDay: number;
+}
+
+function getDayFields(epochDay: number): DayFields {
+  const d = new Date(epochDay * DAY_MS);
+  const year = d.getUTCFullYear();
+  return {
+    year,
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+    weekday: d.getUTCDay(),
+    yearDay: epochDay - toEpochDay(year, 1, 1) + 1,
+  };
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
+}
+
+/**
+ * Resolves a possibly negative 1-based position in a list of a given length
+ */
+function matchesPosition(values: number[], value: number, length: number) {
+  return values.some((n) => (n > 0 ? n : length + n + 1) === value);
+}
+
+/**
+ * Picks possibly negative 1-based positions from a sorted list
+ */
+function pickPositions<T>(list: T[], positions: number[]): T[] {
+  const picked = positions
+    .map((n) => (n > 0 ? n - 1 : list.length + n))
+    .filter((i) => i >= 0 && i < list.length);
+  return [...new Set(picked)].sort((a, b) => a - b).map((i) => list[i]);
+}
+
+/**
+ * Gets the first day of week 1 of a year: the week starting on `wkst` that
+ * has at least 4 days in the year
+ */
+function weekOneStart(year: number, wkst: number): number {
+  const january1 = toEpochDay(year, 1, 1);
+  const offset = (getDayFields(january1).weekday - wkst + 7) % 7;
+  return january1 - offset + (offset > 3 ? 7 : 0);
+}
+
+function toTime(value: Date | string | number, name: string): number {
+  const time = new Date(value).getTime();
+  if (isNaN(time)) {
+    throw new RangeError(`Invalid ${name}: ${String(value)}`);
+  }
+  return time;
+}
+
+function checkList(
+  name: string,
+  values: number[],
+  min: number,
+  max: number,
+  allowNegative = false
+): number[] {
+  values.forEach((value) => {
+    const size = Math.abs(value);
+    if (
+      !Number.isInteger(value) ||
+      (value < 0 && !allowNegative) ||
+      (allowNegative ? size < 1 || size > max : value < min || value > max)
+    ) {
+      throw new RangeError(`Invalid ${name} value: ${value}`);
+    }
+  });
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+/**
+ * Validates options and converts them to a Rule
+ * @throws RangeError for invalid options or rule part combinations
+ */
+function compileRule(options: RRuleOptions): Rule {
+  const { freq, interval = 1, count, wkst = "MO" } = options;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new RangeError(`Invalid FREQ: ${freq}`);
+  }
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new RangeError(`Invalid INTERVAL: ${interval}`);
+  }
+  if (count !== undefined && (!Number.isInteger(count) || count < 0)) {
+    throw new RangeError(`Invalid COUNT: ${count}`);
+  }
+  if (count !== undefined && options.until !== undefined) {
+    throw new RangeError("COUNT and UNTIL cannot be used together");
+  }
+  if (!WEEKDAYS.includes(wkst)) {
+    throw new RangeError(`Invalid WKST: ${wkst}`);
+  }
+
+  const byDay = (options.byDay ?? []).map((value) => {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/i.exec(value);
+    const nth = match?.[1] ? parseInt(match[1], 10) : 0;
+    if (!match || Math.abs(nth) > 53 || (match[1] && nth === 0)) {
+      throw new RangeError(`Invalid BYDAY value: ${value}`);
+    }
+    return {
+      weekday: WEEKDAYS.indexOf(match[2].toUpperCase() as Weekday),
+      nth,
+    };
+  });
+
+  const rule: Rule = {
+    freq,
+    dtstart: toTime(
+      options.dtstart ?? Math.floor(Date.now() / 1000) * 1000,
+      "DTSTART"
+    ),
+    timeZone: options.timeZone ?? "UTC",
+    interval,
+    count,
+    until:
+      options.until === undefined ? undefined : toTime(options.until, "UNTIL"),
+    byDay,
+    byMonthDay: checkList("BYMONTHDAY", options.byMonthDay ?? [], 1, 31, true),
+    byMonth: checkList("BYMONTH", options.byMonth ?? [], 1, 12),
+    byYearDay: checkList("BYYEARDAY", options.byYearDay ?? [], 1, 366, true),
+    byWeekNo: checkList("BYWEEKNO", options.byWeekNo ?? [], 1, 53, true),
+    byHour: checkList("BYHOUR", options.byHour ?? [], 0, 23),
+    byMinute: checkList("BYMINUTE", options.byMinute ?? [], 0, 59),
+    bySecond: checkList("BYSECOND", options.bySecond ?? [], 0, 59),
+    bySetPos: checkList("BYSETPOS", options.bySetPos ?? [], 1, 366, true),
+    wkst: WEEKDAYS.indexOf(wkst),
+    exDates: (options.exDates ?? []).map((date) => toTime(date, "EXDATE")),
+    rDates: (options.rDates ?? []).map((date) => toTime(date, "RDATE")),
+  };
+
+  // Rule part combinations RFC 5545 forbids
+  if (
+    byDay.some(({ nth }) => nth !== 0) &&
+    (!["MONTHLY", "YEARLY"].includes(freq) || rule.byWeekNo.length > 0)
+  ) {
+    throw new RangeError(
+      "BYDAY ordinals need FREQ=MONTHLY or FREQ=YEARLY without BYWEEKNO"
+    );
+  }
+  if (rule.byMonthDay.length > 0 && freq === "WEEKLY") {
+    throw new RangeError("BYMONTHDAY cannot be used with FREQ=WEEKLY");
+  }
+  if (
+    rule.byYearDay.length > 0 &&
+    ["DAILY", "WEEKLY", "MONTHLY"].includes(freq)
+  ) {
+    throw new RangeError(`BYYEARDAY cannot be used with FREQ=${freq}`);
+  }
+  if (rule.byWeekNo.length > 0 && freq !== "YEARLY") {
+    throw new RangeError("BYWEEKNO needs FREQ=YEARLY");
+  }
+  if (
+    rule.bySetPos.length > 0 &&
+    [
+      byDay,
+      rule.byMonthDay,
+      rule.byMonth,
+      rule.byYearDay,
+      rule.byWeekNo,
+      rule.byHour,
+      rule.byMinute,
+      rule.bySecond,
+    ].every((list) => list.length === 0)
+  ) {
+    throw new RangeError("BYSETPOS needs another BYxxx rule part");
+  }
+  return rule;
+}
+
+/**
+ * Formats an instant as an iCalendar date-time, in UTC with a "Z" or as
+ * wall-clock time in a timezone
+ */
+function formatICal(time: number, timeZone: TimeZone): string {
+  const zoned = utcToZonedTime(time, timeZone);
+  const pad = (value: number, length = 2) =>
+    value.toString().padStart(length, "0");
+  return (
+    `${pad(zoned.year, 4)}${pad(zoned.month)}${pad(zoned.day)}` +
+    `T${pad(zoned.hour)}${pad(zoned.minute)}${pad(zoned.second)}` +
+    (timeZone === "UTC" ? "Z" : "")
+  );
+}
+
+/**
+ * Formats a property line such as "DTSTART;TZID=Europe/Berlin:20240101T090000"
+ */
+function formatProperty(
+  name: string,
+  times: number[],
+  timeZone: TimeZone
+): string {
+  const values = times.map((time) => formatICal(time, timeZone)).join(",");
+  return timeZone === "UTC"
+    ? `${name}:${values}`
+    : `${name};TZID=${timeZone}:${values}`;
+}
+
+/**
+ * RFC 5545 recurrence rule expanded in a timezone. Daily and longer
+ * frequencies repeat the wall-clock time of `dtstart`, so a weekly 09:00
+ * meeting stays at 09:00 across DST; shorter frequencies step in elapsed
+ * time. Occurrences are generated lazily, so rules without COUNT or UNTIL
+ * can be iterated with `for...of` and a `break`.
+ */
+export class RRule implements Iterable<Date> {
+  private readonly rule: Rule;
+
+  /**
+   * Creates a recurrence rule; prefer the `rrule` factory
+   * @param options - Rule parts
+   * @throws RangeError for invalid options or rule part combinations
+   */
+  constructor(options: RRuleOptions) {
+    this.rule = compileRule(options);
+    Object.freeze(this);
+  }
+
+  /**
+   * The instant the rule starts from
+   */
+  get dtstart(): Date {
+    return new Date(this.rule.dtstart);
+  }
+
+  /**
+   * The timezone occurrences are expanded in
+   */
+  get timeZone(): TimeZone {
+    return this.rule.timeZone;
+  }
+
+  /**
+   * Lazily yields every occurrence in order, RDATEs included and EXDATEs
+   * removed
+   */
+  *[Symbol.iterator](): Iterator<Date> {
+    yield* this.occurrences(-Infinity);
+  }
+
+  /**
+   * Yields the occurrences in order, skipping ahead to the period holding
+   * `from` when that cannot change which occurrences follow; earlier ones
+   * may still be yielded
+   */
+  private *occurrences(from: number): Generator<Date> {
+    const excluded = new Set(this.rule.exDates);
+    const extra = [...new Set(this.rule.rDates)].sort((a, b) => a - b);
+    let next = 0;
+    let last = NaN;
+    const accept = (time: number) => {
+      const fresh = time !== last && !excluded.has(time);
+      last = time;
+      return fresh;
+    };
+
+    for (const time of this.ruleInstants(from)) {
+      for (; next < extra.length && extra[next] <= time; next++) {
+        if (accept(extra[next])) {
+          yield new Date(extra[next]);
+        }
+      }
+      if (accept(time)) {
+        yield new Date(time);
+      }
+    }
+    for (; next < extra.length; next++) {
+      if (accept(extra[next])) {
+        yield new Date(extra[next]);
+      }
+    }
+  }
+
+  /**
+   * Gets the occurrences between two dates
+   * @param after - Start of the range
+   * @param before - End of the range
+   * @param inclusive - Include occurrences equal to the bounds (default: false)
+   * @returns Occurrences in order
+   */
+  between(
+    after: Date | string | number,
+    before: Date | string | number,
+    inclusive = false
+  ): Date[] {
+    const from = new Date(after).getTime();
+    const to = new Date(before).getTime();
+    const result: Date[] = [];
+    for (const date of this.occurrences(from)) {
+      const time = date.getTime();
+      if (time > to || (time === to && !inclusive)) {
+        break;
+      }
+      if (time > from || (time === from && inclusive)) {
+        result.push(date);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Gets the first occurrence after a date
+   * @param date - Reference date
+   * @param inclusive - Accept an occurrence equal to the date (default: false)
+   * @returns The occurrence, or null if there is none
+   */
+  after(date: Date | string | number, inclusive = false): Date | null {
+    const time = new Date(date).getTime();
+    for (const occurrence of this.occurrences(time)) {
+      const current = occurrence.getTime();
+      if (current > time || (current === time && inclusive)) {
+        return occurrence;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Gets the last occurrence before a date
+   * @param date - Reference date
+   * @param inclusive - Accept an occurrence equal to the date (default: false)
+   * @returns The occurrence, or null if there is none
+   */
+  before(date: Date | string | number, inclusive = false): Date | null {
+    const time = new Date(date).getTime();
+    if (isNaN(time)) {
+      return null;
+    }
+    // Every occurrence from a window's start on is yielded, so the last one
+    // found is the answer; widen the window back towards DTSTART until one is
+    for (let span = DAY_MS; ; span *= 2) {
+      const from = time - span;
+      let found: Date | null = null;
+      for (const occurrence of this.occurrences(from)) {
+        const current = occurrence.getTime();
+        if (current > time || (current === time && !inclusive)) {
+          break;
+        }
+        found = occurrence;
+      }
+      if (found || from <= this.rule.dtstart || this.rule.count !== undefined) {
+        return found;
+      }
+    }
+  }
+
+  /**
+   * Formats as iCalendar lines: DTSTART, RRULE and any EXDATE and RDATE
+   * @returns The rule, parseable by `parseRRule`
+   */
+  toString(): string {
+    const rule = this.rule;
+    const parts = [`FREQ=${rule.freq}`];
+    const add = (name: string, values: (number | string)[]) => {
+      if (values.length > 0) {
+        parts.push(`${name}=${values.join(",")}`);
+      }
+    };
+    add("INTERVAL", rule.interval === 1 ? [] : [rule.interval]);
+    add("COUNT", rule.count === undefined ? [] : [rule.count]);
+    add(
+      "UNTIL",
+      rule.until === undefined ? [] : [formatICal(rule.until, "UTC")]
+    );
+    add("BYMONTH", rule.byMonth);
+    add("BYWEEKNO", rule.byWeekNo);
+    add("BYYEARDAY", rule.byYearDay);
+    add("BYMONTHDAY", rule.byMonthDay);
+    add(
+      "BYDAY",
+      rule.byDay.map(({ weekday, nth }) => `${nth || ""}${WEEKDAYS[weekday]}`)
+    );
+    add("BYHOUR", rule.byHour);
+    add("BYMINUTE", rule.byMinute);
+    add("BYSECOND", rule.bySecond);
+    add("BYSETPOS", rule.bySetPos);
+    add("WKST", rule.wkst === 1 ? [] : [WEEKDAYS[rule.wkst]]);
+
+    const lines = [
+      formatProperty("DTSTART", [rule.dtstart], rule.timeZone),
+      `RRULE:${parts.join(";")}`,
+    ];
+    if (rule.exDates.length > 0) {
+      lines.push(formatProperty("EXDATE", rule.exDates, rule.timeZone));
+    }
+    if (rule.rDates.length > 0) {
+      lines.push(formatProperty("RDATE", rule.rDates, rule.timeZone));
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Yields the rule's own occurrences from DTSTART, bounded by COUNT and
+   * UNTIL. Without COUNT, periods before the one holding `from` are skipped.
+   */
+  private *ruleInstants(from: number): Generator<number> {
+    const { dtstart, count, until } = this.rule;
+    if (count === 0) {
+      return;
+    }
+    // COUNT is spent by every earlier occurrence, so only then walk them all
+    const skipTo = count === undefined ? from : -Infinity;
+    let emitted = 0;
+    let last = NaN;
+    const periods = SUB_DAILY_MS[this.rule.freq]
+      ? this.subDailyPeriods(skipTo)
+      : this.calendarPeriods(skipTo);
+    for (const period of periods) {
+      for (const time of period) {
+        if (time < dtstart || time === last) {
+          continue;
+        }
+        if (until !== undefined && time > until) {
+          return;
+        }
+        last = time;
+        yield time;
+        if (++emitted === count) {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks the day-level rule parts other than BYDAY
+   */
+  private matchesDay(parts: DayParts, fields: DayFields): boolean {
+    const { byMonth, byYearDay, byMonthDay } = parts;
+    if (byMonth.length > 0 && !byMonth.includes(fields.month)) {
+      return false;
+    }
+    if (
+      byYearDay.length > 0 &&
+      !matchesPosition(
+        byYearDay,
+        fields.yearDay,
+        toEpochDay(fields.year + 1, 1, 1) - toEpochDay(fields.year, 1, 1)
+      )
+    ) {
+      return false;
+    }
+    return (
+      byMonthDay.length === 0 ||
+      matchesPosition(
+        byMonthDay,
+        fields.day,
+        daysInMonth(fields.year, fields.month)
+      )
+    );
+  }
+
+  /**
+   * Days of a YEARLY or MONTHLY period allowed by BYDAY with ordinals, which
+   * count within the month, or the year when there is no BYMONTH
+   */
+  private ordinalDays(
+    parts: DayParts,
+    year: number,
+    month?: number
+  ): Set<number> {
+    const { byDay, byMonth } = parts;
+    let scopes = [[1, 13]];
+    if (month !== undefined) {
+      scopes = [[month, month + 1]];
+    } else if (byMonth.length > 0) {
+      scopes = byMonth.map((m) => [m, m + 1]);
+    }
+    const allowed = new Set<number>();
+    scopes.forEach(([from, to]) => {
+      const days = range(toEpochDay(year, from, 1), toEpochDay(year, to, 1));
+      byDay.forEach(({ weekday, nth }) => {
+        const matching = days.filter(
+          (day) => getDayFields(day).weekday === weekday
+        );
+        (nth === 0 ? matching : pickPositions(matching, [nth])).forEach((day) =>
+          allowed.add(day)
+        );
+      });
+    });
+    return allowed;
+  }
+
+  /**
+   * Candidate days of the k-th YEARLY, MONTHLY, WEEKLY or DAILY period
+   * @returns Sorted epoch days, or null once past the last supported year
+   */
+  private periodDays(
+    parts: DayParts,
+    k: number,
+    startDay: number
+  ): number[] | null {
+    const { freq, interval, byWeekNo, wkst } = this.rule;
+    const start = getDayFields(startDay);
+    const hasOrdinals = parts.byDay.some(({ nth }) => nth !== 0);
+    let days: number[];
+    let ordinals: Set<number> | undefined;
+
+    if (freq === "YEARLY") {
+      const year = start.year + k * interval;
+      if (year > MAX_YEAR) {
+        return null;
+      }
+      if (byWeekNo.length > 0) {
+        const first = weekOneStart(year, wkst);
+        const weeks = (weekOneStart(year + 1, wkst) - first) / 7;
+        days = byWeekNo
+          .map((n) => (n > 0 ? n : weeks + n + 1))
+          .filter((n) => n >= 1 && n <= weeks)
+          .flatMap((n) => range(first + (n - 1) * 7, first + n * 7));
+      } else {
+        days = range(toEpochDay(year, 1, 1), toEpochDay(year + 1, 1, 1));
+      }
+      ordinals = hasOrdinals ? this.ordinalDays(parts, year) : undefined;
+    } else if (freq === "MONTHLY") {
+      const index = start.month - 1 + k * interval;
+      const year = start.year + Math.floor(index / 12);
+      const month = (index % 12) + 1;
+      days = range(toEpochDay(year, month, 1), toEpochDay(year, month + 1, 1));
+      ordinals = hasOrdinals ? this.ordinalDays(parts, year, month) : undefined;
+    } else if (freq === "WEEKLY") {
+      const weekStart =
+        startDay - ((start.weekday - wkst + 7) % 7) + k * interval * 7;
+      days = range(weekStart, weekStart + 7);
+    } else {
+      days = [startDay + k * interval];
+    }
+
+    if (days.length > 0 && getDayFields(days[0]).year > MAX_YEAR) {
+      return null;
+    }
+    const weekdays = parts.byDay.map(({ weekday }) => weekday);
+    return [...new Set(days)]
+      .sort((a, b) => a - b)
+      .filter((day) => {
+        const fields = getDayFields(day);
+        if (!this.matchesDay(parts, fields)) {
+          return false;
+        }
+        if (ordinals) {
+          return ordinals.has(day);
+        }
+        return weekdays.length === 0 || weekdays.includes(fields.weekday);
+      });
+  }
+
+  /**
+   * Counts the whole YEARLY, MONTHLY, WEEKLY or DAILY periods from DTSTART's
+   * to the one holding an instant
+   */
+  private periodIndex(time: number, startDay: number): number {
+    const { freq, interval, timeZone, wkst } = this.rule;
+    const zoned = utcToZonedTime(time, timeZone);
+    const day = toEpochDay(zoned.year, zoned.month, zoned.day);
+    const start = getDayFields(startDay);
+    const weekStart = (epochDay: number) =>
+      epochDay - ((getDayFields(epochDay).weekday - wkst + 7) % 7);
+    let periods = day - startDay;
+    if (freq === "YEARLY") {
+      periods = zoned.year - start.year;
+    } else if (freq === "MONTHLY") {
+      periods = (zoned.year - start.year) * 12 + zoned.month - start.month;
+    } else if (freq === "WEEKLY") {
+      periods = (weekStart(day) - weekStart(startDay)) / 7;
+    }
+    return Math.floor(periods / interval);
+  }
+
+  /**
+   * Yields the occurrences of each YEARLY, MONTHLY, WEEKLY or DAILY period,
+   * expanded in wall-clock time, from the period before the one holding
+   * `from`
+   */
+  private *calendarPeriods(from: number): Generator<number[]> {
+    const rule = this.rule;
+    const start = utcToZonedTime(rule.dtstart, rule.timeZone);
+    const startDay = toEpochDay(start.year, start.month, start.day);
+
+    // Missing day-level parts default to DTSTART's, as in RFC 5545
+    const parts: DayParts = { ...rule };
+    if (
+      rule.byDay.length === 0 &&
+      rule.byMonthDay.length === 0 &&
+      rule.byYearDay.length === 0 &&
+      rule.byWeekNo.length === 0
+    ) {
+      if (rule.freq === "YEARLY") {
+        parts.byMonth = rule.byMonth.length > 0 ? rule.byMonth : [start.month];
+        parts.byMonthDay = [start.day];
+      } else if (rule.freq === "MONTHLY") {
+        parts.byMonthDay = [start.day];
+      } else if (rule.freq === "WEEKLY") {
+        parts.byDay = [{ weekday: getDayFields(startDay).weekday, nth: 0 }];
+      }
+    }
+
+    const hours = rule.byHour.length > 0 ? rule.byHour : [start.hour];
+    const minutes = rule.byMinute.length > 0 ? rule.byMinute : [start.minute];
+    const seconds = rule.bySecond.length > 0 ? rule.bySecond : [start.second];
+    const times = hours.flatMap((hour) =>
+      minutes.flatMap((minute) =>
+        seconds.map((second) => ({ hour, minute, second }))
+      )
+    );
+
+    // One period early, in case DST moves an occurrence across the boundary
+    const first =
+      from > rule.dtstart
+        ? Math.max(0, this.periodIndex(from, startDay) - 1)
+        : 0;
+    for (let k = first; ; k++) {
+      const days = this.periodDays(parts, k, startDay);
+      if (days === null) {
+        return;
+      }
+      let wallClocks = days.flatMap((day) => {
+        const { year, month, day: dayOfMonth } = getDayFields(day);
+        return times.map((time) => ({
+          year,
+          month,
+          day: dayOfMonth,
+          ...time,
+          millisecond: start.millisecond,
+        }));
+      });
+      if (rule.bySetPos.length > 0) {
+        wallClocks = pickPositions(wallClocks, rule.bySetPos);
+      }
+      yield wallClocks
+        .map((wall) => zonedTimeToUtc(wall, rule.timeZone).getTime())
+        .sort((a, b) => a - b);
+    }
+  }
+
+  /**
+   * Yields the occurrences of each HOURLY, MINUTELY or SECONDLY period,
+   * stepping in elapsed time and filtering on wall-clock fields, from the
+   * period before the one holding `from`
+   */
+  private *subDailyPeriods(from: number): Generator<number[]> {
+    const rule = this.rule;
+    const { freq, timeZone, byHour, byMinute, bySecond } = rule;
+    const step = (SUB_DAILY_MS[freq] as number) * rule.interval;
+    const start = utcToZonedTime(rule.dtstart, timeZone);
+    const weekdays = rule.byDay.map(({ weekday }) => weekday);
+
+    // Periods start on whole local hours, minutes or seconds; occurrences are
+    // offsets from there
+    let periodOffset = 0;
+    let offsets = [0];
+    if (freq === "HOURLY") {
+      const minutes = byMinute.length > 0 ? byMinute : [start.minute];
+      const seconds = bySecond.length > 0 ? bySecond : [start.second];
+      periodOffset = start.minute * 60_000 + start.second * 1000;
+      offsets = minutes.flatMap((m) =>
+        seconds.map((s) => m * 60_000 + s * 1000)
+      );
+    } else if (freq === "MINUTELY") {
+      const seconds = bySecond.length > 0 ? bySecond : [start.second];
+      periodOffset = start.second * 1000;
+      offsets = seconds.map((s) => s * 1000);
+    }
+
+    const matchesDate = (zoned: ZonedTime) => {
+      const fields = getDayFields(
+        toEpochDay(zoned.year, zoned.month, zoned.day)
+      );
+      return (
+        this.matchesDay(rule, fields) &&
+        (weekdays.length === 0 || weekdays.includes(fields.weekday))
+      );
+    };
+    const matchesTime = (zoned: ZonedTime) =>
+      (byHour.length === 0 || byHour.includes(zoned.hour)) &&
+      (freq === "HOURLY" ||
+        byMinute.length === 0 ||
+        byMinute.includes(zoned.minute)) &&
+      (freq !== "SECONDLY" ||
+        bySecond.length === 0 ||
+        bySecond.includes(zoned.second));
+    // Skips whole steps up to an instant, at least one
+    const skipTo = (from: number, to: number) =>
+      from + Math.max(1, Math.ceil((to - from) / step)) * step;
+
+    let period = rule.dtstart - start.millisecond - periodOffset;
+    if (from > period) {
+      period += Math.max(0, Math.floor((from - period) / step) - 1) * step;
+    }
+    while (true) {
+      const zoned = utcToZonedTime(period, timeZone);
+      if (zoned.year > MAX_YEAR) {
+        return;
+      }
+      if (!matchesDate(zoned)) {
+        const { year, month, day } = zoned;
+        period = skipTo(
+          period,
+          zonedTimeToUtc({ year, month, day: day + 1 }, timeZone).getTime()
+        );
+        continue;
+      }
+      if (byHour.length > 0 && !byHour.includes(zoned.hour)) {
+        period = skipTo(
+          period,
+          period + 3_600_000 - zoned.minute * 60_000 - zoned.second * 1000
+        );
+        continue;
+      }
+
+      let occurrences = offsets
+        .map((offset) => period + offset + start.millisecond)
+        .filter((time) => {
+          const local = utcToZonedTime(time, timeZone);
+          return matchesDate(local) && matchesTime(local);
+        });
+      if (rule.bySetPos.length > 0) {
+        occurrences = pickPositions(occurrences, rule.bySetPos);
+      }
+      yield occurrences;
+      period += step;
+    }
+  }
+}
+
+/**
+ * Creates a recurrence rule
+ * @param options - Rule parts
+ * @returns A new RRule
+ * @throws RangeError for invalid options or rule part combinations
+ */
+export function rrule(options: RRuleOptions): RRule {
+  return new RRule(options);
+}
+
+/**
+ * Reads an iCalendar date or date-time value in a timezone
+ */
+function parseICalDate(
+  value: string,
+  timeZone: TimeZone,
+  endOfDay = false
+): number {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i.exec(
+    value.trim()
+  );
+  if (!match) {
+    throw new RangeError(`Invalid iCalendar date: ${value}`);
+  }
+  const [year, month, day, hour, minute, second] = match
+    .slice(1, 7)
+    .map((part) => parseInt(part || "0", 10));
+  if (match[7]) {
+    return Date.UTC(year, month - 1, day, hour, minute, second);
+  }
+  if (!match[4] && endOfDay) {
+    return (
+      zonedTimeToUtc({ year, month, day: day + 1 }, timeZone).getTime() - 1
+    );
+  }
+  return zonedTimeToUtc(
+    { year, month, day, hour, minute, second },
+    timeZone
+  ).getTime();
+}
+
+const RULE_PARTS: Record<string, keyof RRuleOptions> = {
+  BYDAY: "byDay",
+  BYMONTHDAY: "byMonthDay",
+  BYMONTH: "byMonth",
+  BYYEARDAY: "byYearDay",
+  BYWEEKNO: "byWeekNo",
+  BYHOUR: "byHour",
+  BYMINUTE: "byMinute",
+  BYSECOND: "bySecond",
+  BYSETPOS: "bySetPos",
+};
+
+/**
+ * Parses iCalendar recurrence lines such as
+ * "DTSTART;TZID=Europe/Berlin:20240101T090000\nRRULE:FREQ=WEEKLY;BYDAY=MO",
+ * or a bare "FREQ=WEEKLY;BYDAY=MO". EXDATE and RDATE lines are supported.
+ * A DTSTART TZID sets the timezone; values without a TZID or "Z" are read in
+ * `options.timeZone`, and a date-only UNTIL includes the whole day.
+ * @param input - iCalendar text
+ * @param options - Defaults for parts the text does not set, such as
+ * `dtstart` and `timeZone`
+ * @returns Parsed rule
+ * @throws RangeError for malformed or unsupported input
+ */
+export function parseRRule(
+  input: string,
+  options: Partial<RRuleOptions> = {}
+): RRule {
+  const lines = input
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => (/^FREQ=/i.test(line) ? `RRULE:${line}` : line));
+
+  const properties = lines.map((line) => {
+    const match = /^([A-Z-]+)((?:;[^:]*)?):(.*)$/i.exec(line);
+    if (!match) {
+      throw new RangeError(`Invalid iCalendar line: ${line}`);
+    }
+    const params: Record<string, string> = {};
+    match[2]
+      .split(";")
+      .filter(Boolean)
+      .forEach((param) => {
+        const [key, ...value] = param.split("=");
+        params[key.toUpperCase()] = value.join("=");
+      });
+    return { name: match[1].toUpperCase(), params, value: match[3] };
+  });
+
+  const dtstart = properties.find(({ name }) => name === "DTSTART");
+  const timeZone = dtstart?.params.TZID ?? options.timeZone ?? "UTC";
+  const result: RRuleOptions = {
+    ...options,
+    freq: options.freq ?? "DAILY",
+    timeZone,
+  };
+  let hasRule = false;
+  const readDates = (property: {
+    params: Record<string, string>;
+    value: string;
+  }) =>
+    property.value
+      .split(",")
+      .map((value) => parseICalDate(value, property.params.TZID ?? timeZone));
+
+  properties.forEach((property) => {
+    switch (property.name) {
+      case "DTSTART":
+        result.dtstart = readDates(property)[0];
+        break;
+      case "EXDATE":
+        result.exDates = [...(result.exDates ?? []), ...readDates(property)];
+        break;
+      case "RDATE":
+        if (property.params.VALUE?.toUpperCase() === "PERIOD") {
+          throw new RangeError("RDATE periods are not supported");
+        }
+        result.rDates = [...(result.rDates ?? []), ...readDates(property)];
+        break;
+      case "RRULE":
+        hasRule = true;
+        property.value.split(";").forEach((part) => {
+          const [key, value = ""] = part.split("=");
+          const name = key.toUpperCase();
+          if (name === "FREQ") {
+            result.freq = value.toUpperCase() as Frequency;
+          } else if (name === "INTERVAL" || name === "COUNT") {
+            result[name === "INTERVAL" ? "interval" : "count"] = Number(value);
+          } else if (name === "UNTIL") {
+            result.until = parseICalDate(value, timeZone, true);
+          } else if (name === "WKST") {
+            result.wkst = value.toUpperCase() as Weekday;
+          } else if (name === "BYDAY") {
+            result.byDay = value.split(",");
+          } else if (RULE_PARTS[name]) {
+            (result[RULE_PARTS[name]] as number[]) = value
+              .split(",")
+              .map(Number);
+          } else {
+            throw new RangeError(`Unsupported RRULE part: ${key}`);
+          }
+        });
+        break;
+      default:
+        throw new RangeError(
+          `Unsupported iCalendar property: ${property.name}`
+        );
+    }
+  });
+
+  if (!hasRule) {
+    throw new RangeError("Missing RRULE");
+  }
+  return new RRule(result);
+}
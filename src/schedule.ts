@@ -0,0 +1,246 @@
+import { Duration } from "./duration";
+import { DAY_MS } from "./calendar-math";
+import { PlainDate, PlainTime, parsePlainDate, parsePlainTime } from "./plain";
+import type { BusinessCalendar } from "./business";
+import type { TimeZone } from "./index";
+
+/**
+ * Opening and closing wall-clock times, such as ["09:00", "12:30"]. The end
+ * may be "24:00" or "24:00:00" for midnight at the end of the day.
+ */
+export type WorkingInterval = [PlainTime | string, PlainTime | string];
+
+/**
+ * Options for a work schedule
+ */
+export interface WorkScheduleOptions {
+  /** Working intervals per weekday (0 = Sunday ... 6 = Saturday) */
+  hours: Partial<Record<number, WorkingInterval[]>>;
+  /** Intervals replacing the weekday's on specific dates ([] = closed) */
+  exceptions?: Record<string, WorkingInterval[]>;
+  /** Closes every day that is not a business day of the calendar */
+  calendar?: BusinessCalendar;
+  /** Timezone of the wall-clock times (default: "UTC") */
+  timeZone?: TimeZone;
+}
+
+/**
+ * Days without working time after which searches give up
+ */
+const MAX_IDLE_DAYS = 366;
+
+/**
+ * Reads a wall-clock time as milliseconds since midnight
+ */
+function toDayMs(value: PlainTime | string): number {
+  if (typeof value === "string" && /^24:00(?::00)?$/.test(value.trim())) {
+    return DAY_MS;
+  }
+  const time = value instanceof PlainTime ? value : parsePlainTime(value);
+  return (
+    ((time.hour * 60 + time.minute) * 60 + time.second) * 1000 +
+    time.millisecond
+  );
+}
+
+/**
+ * Converts intervals to sorted, non-overlapping [start, end) milliseconds
+ * @throws RangeError for empty or overlapping intervals
+ */
+function compileIntervals(intervals: WorkingInterval[]): [number, number][] {
+  const compiled = intervals
+    .map(([start, end]): [number, number] => [toDayMs(start), toDayMs(end)])
+    .sort((a, b) => a[0] - b[0]);
+  compiled.forEach(([start, end], i) => {
+    if (start >= end || (i > 0 && start < compiled[i - 1][1])) {
+      throw new RangeError(
+        `Invalid working hours: ${intervals.map((pair) => pair.join("-")).join(", ")}`
+      );
+    }
+  });
+  return compiled;
+}
+
+/**
+ * Weekly working hours in a timezone, with exception dates. Intervals are
+ * wall-clock times, so 09:00-17:30 stays 09:00-17:30 on both sides of a DST
+ * change, and a night shift crossing the change is an hour shorter or longer.
+ */
+export class WorkSchedule {
+  readonly timeZone: TimeZone;
+  private readonly weekly: [number, number][][];
+  private readonly exceptions: Map<string, [number, number][]>;
+  private readonly calendar?: BusinessCalendar;
+
+  /**
+   * Creates a work schedule; prefer the `workSchedule` factory
+   * @param options - Weekly hours, exceptions and timezone
+   * @throws RangeError for empty or overlapping intervals, or exception
+   * dates that do not exist
+   */
+  constructor(options: WorkScheduleOptions) {
+    const { hours, exceptions = {}, calendar, timeZone = "UTC" } = options;
+    this.timeZone = timeZone;
+    this.weekly = Array.from({ length: 7 }, (_, day) =>
+      compileIntervals(hours[day] ?? [])
+    );
+    this.exceptions = new Map(
+      Object.entries(exceptions).map(([date, intervals]) => [
+        parsePlainDate(date).toString(),
+        compileIntervals(intervals),
+      ])
+    );
+    this.calendar = calendar;
+    Object.freeze(this);
+  }
+
+  /**
+   * Checks if the schedule is open at an instant
+   * @param date - Instant to check
+   * @returns True inside a working interval, false for invalid dates
+   */
+  isWithinWorkingHours(date: Date | string | number): boolean {
+    const time = new Date(date).getTime();
+    if (isNaN(time)) {
+      return false;
+    }
+    return this.spansOn(PlainDate.fromInstant(time, this.timeZone)).some(
+      ([start, end]) => start <= time && time < end
+    );
+  }
+
+  /**
+   * Finds the first working instant at or after a date
+   * @param date - Instant to start from
+   * @returns The date itself while open, else the next opening; an invalid
+   * Date if the schedule has no working time within a year
+   */
+  nextOpening(date: Date | string | number): Date {
+    const time = new Date(date).getTime();
+    if (isNaN(time)) {
+      return new Date(NaN);
+    }
+    for (const [start] of this.intervals(time, 1)) {
+      return new Date(start);
+    }
+    return new Date(NaN);
+  }
+
+  /**
+   * Adds working time, skipping closed hours; negative amounts go back
+   * @param date - Instant to start from
+   * @param amount - Milliseconds or a Duration (days count as 24 hours;
+   * years and months are not supported)
+   * @returns The instant the working time runs out; an invalid Date for
+   * invalid input or a schedule without working time within a year
+   */
+  addWorkingTime(
+    date: Date | string | number,
+    amount: number | Duration
+  ): Date {
+    const time = new Date(date).getTime();
+    const ms = amount instanceof Duration ? amount.toMilliseconds() : amount;
+    if (isNaN(time) || !isFinite(ms)) {
+      return new Date(NaN);
+    }
+    if (ms === 0) {
+      return new Date(time);
+    }
+
+    const step = ms > 0 ? 1 : -1;
+    let remaining = Math.abs(ms);
+    for (const [start, end] of this.intervals(time, step)) {
+      if (remaining <= end - start) {
+        return new Date(step > 0 ? start + remaining : end - remaining);
+      }
+      remaining -= end - start;
+    }
+    return new Date(NaN);
+  }
+
+  /**
+   * Sums the working time from one instant to another
+   * @param date1 - Start instant
+   * @param date2 - End instant
+   * @returns Working milliseconds, negative if date2 is before date1
+   */
+  workingTimeBetween(
+    date1: Date | string | number,
+    date2: Date | string | number
+  ): number {
+    const time1 = new Date(date1).getTime();
+    const time2 = new Date(date2).getTime();
+    if (isNaN(time1) || isNaN(time2)) {
+      return NaN;
+    }
+
+    const from = Math.min(time1, time2);
+    const to = Math.max(time1, time2);
+    let total = 0;
+    for (const [start, end] of this.intervals(from, 1)) {
+      if (start >= to) {
+        break;
+      }
+      total += Math.min(end, to) - start;
+    }
+    return time2 >= time1 ? total : -total;
+  }
+
+  /**
+   * Working intervals of a date as instants
+   */
+  private spansOn(date: PlainDate): [number, number][] {
+    if (this.calendar && !this.calendar.isBusinessDay(date)) {
+      return [];
+    }
+    const intervals =
+      this.exceptions.get(date.toString()) ?? this.weekly[date.dayOfWeek];
+    const toInstant = (ms: number) =>
+      ms === DAY_MS
+        ? date.add(1, "days").toInstant(this.timeZone).getTime()
+        : date
+            .at(new PlainTime().add(ms, "milliseconds"))
+            .toInstant(this.timeZone)
+            .getTime();
+    return intervals
+      .map(([start, end]): [number, number] => [
+        toInstant(start),
+        toInstant(end),
+      ])
+      .filter(([start, end]) => start < end);
+  }
+
+  /**
+   * Lazily walks working intervals from an instant, clipped to it, forward
+   * (step 1) or backward (step -1)
+   */
+  private *intervals(from: number, step: 1 | -1): Generator<[number, number]> {
+    let date = PlainDate.fromInstant(from, this.timeZone);
+    for (let idle = 0; idle < MAX_IDLE_DAYS; date = date.add(step, "days")) {
+      const spans = this.spansOn(date);
+      let found = false;
+      for (const [start, end] of step > 0 ? spans : spans.reverse()) {
+        const clipped: [number, number] =
+          step > 0
+            ? [Math.max(start, from), end]
+            : [start, Math.min(end, from)];
+        if (clipped[0] < clipped[1]) {
+          found = true;
+          yield clipped;
+        }
+      }
+      idle = found ? 0 : idle + 1;
+    }
+  }
+}
+
+/**
+ * Creates a work schedule
+ * @param options - Weekly hours, exceptions and timezone
+ * @returns A new WorkSchedule
+ * @throws RangeError for empty or overlapping intervals, or exception dates
+ * that do not exist
+ */
+export function workSchedule(options: WorkScheduleOptions): WorkSchedule {
+  return new WorkSchedule(options);
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import {
+  BusinessCalendar,
+  PlainDate,
+  businessCalendar,
+  parsePlainDate,
+} from "../src";
+
+describe("BusinessCalendar", () => {
+  const thursday = parsePlainDate("2024-03-21");
+  const calendar = businessCalendar({
+    holidays: ["2024-03-25", "2024-12-25", "2024-12-28"],
+  });
+
+  describe("isBusinessDay", () => {
+    it("skips weekends and holidays", () => {
+      expect(calendar.isBusinessDay(thursday)).toBe(true);
+      expect(calendar.isBusinessDay(parsePlainDate("2024-03-23"))).toBe(false);
+      expect(calendar.isBusinessDay(parsePlainDate("2024-03-25"))).toBe(false);
+      expect(calendar.isBusinessDay("2024-03-26T12:00:00Z")).toBe(true);
+    });
+
+    it("supports other weekends", () => {
+      const gulf = businessCalendar({ weekend: [5, 6] });
+      expect(gulf.isBusinessDay(parsePlainDate("2024-03-22"))).toBe(false);
+      expect(gulf.isBusinessDay(parsePlainDate("2024-03-24"))).toBe(true);
+      expect(gulf.nextBusinessDay(thursday).toString()).toBe("2024-03-24");
+    });
+
+    it("reads instants in the calendar timezone", () => {
+      const tokyo = businessCalendar({ timeZone: "Asia/Tokyo" });
+      // Friday 20:00 UTC is already Saturday in Tokyo
+      expect(tokyo.isBusinessDay("2024-03-22T20:00:00Z")).toBe(false);
+      expect(calendar.isBusinessDay("2024-03-22T20:00:00Z")).toBe(true);
+    });
+
+    it("returns false for invalid dates", () => {
+      expect(calendar.isBusinessDay("invalid")).toBe(false);
+    });
+  });
+
+  describe("addBusinessDays", () => {
+    it("moves over weekends and holidays", () => {
+      expect(calendar.addBusinessDays(thursday, 1).toString()).toBe(
+        "2024-03-22"
+      );
+      expect(calendar.addBusinessDays(thursday, 2).toString()).toBe(
+        "2024-03-26"
+      );
+      expect(calendar.addBusinessDays(thursday, 5).toString()).toBe(
+        "2024-03-29"
+      );
+      expect(calendar.subtractBusinessDays(thursday, 4).toString()).toBe(
+        "2024-03-15"
+      );
+    });
+
+    it("returns the same date for zero", () => {
+      const saturday = parsePlainDate("2024-03-23");
+      expect(calendar.addBusinessDays(saturday, 0).equals(saturday)).toBe(true);
+    });
+
+    it("keeps the wall-clock time of instants", () => {
+      const newYork = businessCalendar({ timeZone: "America/New_York" });
+      // Friday 09:00 EST + 1 business day = Monday 09:00 EDT
+      expect(
+        newYork.addBusinessDays("2024-03-08T14:00:00Z", 1).toISOString()
+      ).toBe("2024-03-11T13:00:00.000Z");
+    });
+
+    it("handles invalid dates gracefully", () => {
+      expect(calendar.addBusinessDays("invalid", 1).getTime()).toBeNaN();
+    });
+
+    it("matches a day-by-day walk", () => {
+      const step = (date: PlainDate, n: number) => {
+        let current = date;
+        for (let left = Math.abs(n); left > 0; ) {
+          current = current.add(Math.sign(n), "days");
+          if (calendar.isBusinessDay(current)) {
+            left--;
+          }
+        }
+        return current;
+      };
+      ["2024-03-21", "2024-03-23", "2024-12-24", "2024-12-31"].forEach(
+        (start) => {
+          const date = parsePlainDate(start);
+          for (let n = -25; n <= 25; n++) {
+            expect(calendar.addBusinessDays(date, n).toString()).toBe(
+              step(date, n).toString()
+            );
+          }
+        }
+      );
+    });
+
+    it("stays fast over many years", () => {
+      const started = Date.now();
+      const result = calendar.addBusinessDays(thursday, 2610);
+      expect(Date.now() - started).toBeLessThan(100);
+      // 522 weeks of 5 days, plus 2 days for the workday holidays of 2024
+      expect(result.toString()).toBe("2034-03-27");
+    });
+  });
+
+  describe("diffBusinessDays", () => {
+    it("counts business days between dates", () => {
+      const nextFriday = parsePlainDate("2024-03-29");
+      expect(calendar.diffBusinessDays(nextFriday, thursday)).toBe(5);
+      expect(calendar.diffBusinessDays(thursday, nextFriday)).toBe(-5);
+      expect(calendar.diffBusinessDays(thursday, thursday)).toBe(0);
+    });
+
+    it("inverts addBusinessDays", () => {
+      const later = calendar.addBusinessDays(thursday, 700);
+      expect(calendar.diffBusinessDays(later, thursday)).toBe(700);
+      const earlier = calendar.addBusinessDays(thursday, -300);
+      expect(calendar.diffBusinessDays(earlier, thursday)).toBe(-300);
+    });
+
+    it("returns NaN for invalid dates", () => {
+      expect(calendar.diffBusinessDays("invalid", thursday)).toBeNaN();
+    });
+  });
+
+  describe("Holiday providers", () => {
+    it("asks a provider for each year once", () => {
+      const years: number[] = [];
+      const provided = businessCalendar({
+        holidays: (year) => {
+          years.push(year);
+          return [`${year}-12-25`, `${year}-01-01`].map(parsePlainDate);
+        },
+      });
+      expect(
+        provided.diffBusinessDays(
+          parsePlainDate("2026-12-31"),
+          parsePlainDate("2023-12-31")
+        )
+      ).toBe(3 * 261 - 5);
+      expect(new Set(years).size).toBe(years.length);
+    });
+
+    it("finds holidays moved across New Year", () => {
+      // New Year's Day 2022 was a Saturday, observed on Friday 2021-12-31
+      const observed = businessCalendar({
+        holidays: (year) => (year === 2022 ? ["2021-12-31"] : []),
+      });
+      expect(observed.isBusinessDay(parsePlainDate("2021-12-31"))).toBe(false);
+    });
+  });
+
+  describe("Validation", () => {
+    it("rejects calendars without workdays", () => {
+      expect(() =>
+        businessCalendar({ weekend: [0, 1, 2, 3, 4, 5, 6] })
+      ).toThrow(RangeError);
+      expect(() => new BusinessCalendar({ weekend: [7] })).toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { LruCache } from "../src/cache";
+
+describe("LruCache", () => {
+  it("creates entries once", () => {
+    const cache = new LruCache<string, number>(2);
+    let created = 0;
+    const create = () => ++created;
+    expect(cache.get("a", create)).toBe(1);
+    expect(cache.get("a", create)).toBe(1);
+    expect(created).toBe(1);
+  });
+
+  it("drops the least recently used entry", () => {
+    const cache = new LruCache<string, string>(2);
+    cache.get("a", () => "a");
+    cache.get("b", () => "b");
+    cache.get("a", () => "a again");
+    cache.get("c", () => "c");
+    expect(cache.size).toBe(2);
+    expect(cache.get("a", () => "a again")).toBe("a");
+    expect(cache.get("b", () => "b again")).toBe("b again");
+  });
+
+  it("caches nothing when creation throws", () => {
+    const cache = new LruCache<string, string>(2);
+    expect(() =>
+      cache.get("a", () => {
+        throw new RangeError("nope");
+      })
+    ).toThrow(RangeError);
+    expect(cache.size).toBe(0);
+  });
+
+  it("empties on clear", () => {
+    const cache = new LruCache<string, string>(2);
+    cache.get("a", () => "a");
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+
+  it("rejects invalid capacities", () => {
+    expect(() => new LruCache(0)).toThrow(RangeError);
+    expect(() => new LruCache(1.5)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { Cron, cron } from "../src";
+
+const next = (expression: string, from: string, timeZone?: string) =>
+  cron(expression, { timeZone }).next(from)?.toISOString();
+
+describe("Cron", () => {
+  describe("next / prev", () => {
+    const workdays = cron("0 9 * * MON-FRI");
+
+    it("finds the next and previous fire times", () => {
+      expect(workdays.next("2024-03-22T10:00:00Z")?.toISOString()).toBe(
+        "2024-03-25T09:00:00.000Z"
+      );
+      expect(workdays.prev("2024-03-25T08:00:00Z")?.toISOString()).toBe(
+        "2024-03-22T09:00:00.000Z"
+      );
+      // Strictly after and before
+      expect(workdays.next("2024-03-25T09:00:00Z")?.toISOString()).toBe(
+        "2024-03-26T09:00:00.000Z"
+      );
+      expect(workdays.prev("2024-03-25T09:00:00Z")?.toISOString()).toBe(
+        "2024-03-22T09:00:00.000Z"
+      );
+    });
+
+    it("reads times in the schedule's timezone", () => {
+      // Friday 10:00 EST → Monday 09:00 EDT
+      expect(
+        next("0 9 * * MON-FRI", "2024-03-08T15:00:00Z", "America/New_York")
+      ).toBe("2024-03-11T13:00:00.000Z");
+    });
+
+    it("supports seconds, steps, lists and names", () => {
+      expect(next("*/10 * * * * *", "2024-01-01T00:00:05Z")).toBe(
+        "2024-01-01T00:00:10.000Z"
+      );
+      expect(next("0 0 1 JAN,jul *", "2024-02-01T00:00:00Z")).toBe(
+        "2024-07-01T00:00:00.000Z"
+      );
+      expect(next("5/20 * * * *", "2024-01-01T00:30:00Z")).toBe(
+        "2024-01-01T00:45:00.000Z"
+      );
+      expect(next("0 0 * * 7", "2024-03-23T00:00:00Z")).toBe(
+        "2024-03-24T00:00:00.000Z"
+      );
+    });
+
+    it("supports macros", () => {
+      expect(next("@daily", "2024-03-22T10:00:00Z")).toBe(
+        "2024-03-23T00:00:00.000Z"
+      );
+      expect(next("@weekly", "2024-03-22T10:00:00Z")).toBe(
+        "2024-03-24T00:00:00.000Z"
+      );
+      expect(next("@yearly", "2024-03-22T10:00:00Z")).toBe(
+        "2025-01-01T00:00:00.000Z"
+      );
+      expect(next("@hourly", "2024-03-22T10:00:00Z")).toBe(
+        "2024-03-22T11:00:00.000Z"
+      );
+    });
+
+    it("returns null for invalid dates and schedules that never fire", () => {
+      expect(workdays.next("invalid")).toBeNull();
+      expect(cron("0 0 30 2 *").next("2024-01-01T00:00:00Z")).toBeNull();
+    });
+  });
+
+  describe("Special characters", () => {
+    it("supports L, L-n and LW", () => {
+      expect(next("0 0 L * *", "2024-02-01T00:00:00Z")).toBe(
+        "2024-02-29T00:00:00.000Z"
+      );
+      expect(next("0 0 L-1 * *", "2024-02-01T00:00:00Z")).toBe(
+        "2024-02-28T00:00:00.000Z"
+      );
+      // March 31, 2024 is a Sunday
+      expect(next("0 0 LW * *", "2024-03-01T00:00:00Z")).toBe(
+        "2024-03-29T00:00:00.000Z"
+      );
+    });
+
+    it("supports W without leaving the month", () => {
+      // June 15, 2024 is a Saturday and June 1 too
+      expect(next("0 0 15W * *", "2024-06-01T00:00:00Z")).toBe(
+        "2024-06-14T00:00:00.000Z"
+      );
+      expect(next("0 0 1W * *", "2024-05-31T00:00:00Z")).toBe(
+        "2024-06-03T00:00:00.000Z"
+      );
+    });
+
+    it("supports # and L in the day of week", () => {
+      expect(next("0 0 ? * FRI#2", "2024-03-01T00:00:00Z")).toBe(
+        "2024-03-08T00:00:00.000Z"
+      );
+      expect(next("0 0 ? * 5L", "2024-03-01T00:00:00Z")).toBe(
+        "2024-03-29T00:00:00.000Z"
+      );
+    });
+
+    it("matches either restricted day field", () => {
+      // The 13th or any Friday
+      expect(next("0 0 13 * FRI", "2024-09-01T00:00:00Z")).toBe(
+        "2024-09-06T00:00:00.000Z"
+      );
+      expect(next("0 0 13 * ?", "2024-09-01T00:00:00Z")).toBe(
+        "2024-09-13T00:00:00.000Z"
+      );
+    });
+  });
+
+  describe("DST", () => {
+    const newYork = "America/New_York";
+
+    it("fires times skipped by a gap when it ends", () => {
+      const nightly = cron("30 2 * * *", { timeZone: newYork });
+      // 02:30 does not exist on March 10: 03:30 EDT
+      expect(nightly.next("2024-03-09T08:00:00Z")?.toISOString()).toBe(
+        "2024-03-10T07:30:00.000Z"
+      );
+      expect(nightly.next("2024-03-10T07:30:00Z")?.toISOString()).toBe(
+        "2024-03-11T06:30:00.000Z"
+      );
+      // Shifted times that are also scheduled fire once
+      expect(
+        cron("*/30 * * * *", { timeZone: newYork })
+          .between("2024-03-10T06:45:00Z", "2024-03-10T08:00:00Z")
+          .map((date) => date.toISOString())
+      ).toEqual(["2024-03-10T07:00:00.000Z", "2024-03-10T07:30:00.000Z"]);
+    });
+
+    it("fires fixed-hour times once in an overlap", () => {
+      const nightly = cron("30 1 * * *", { timeZone: newYork });
+      // 01:30 EDT, then 01:30 EST the next day
+      expect(nightly.next("2024-11-03T04:00:00Z")?.toISOString()).toBe(
+        "2024-11-03T05:30:00.000Z"
+      );
+      expect(nightly.next("2024-11-03T05:30:00Z")?.toISOString()).toBe(
+        "2024-11-04T06:30:00.000Z"
+      );
+    });
+
+    it("fires wildcard-hour times in both halves of an overlap", () => {
+      const quarterly = cron("0,45 * * * *", { timeZone: newYork });
+      expect(
+        quarterly
+          .between("2024-11-03T04:30:00Z", "2024-11-03T07:00:00Z", true)
+          .map((date) => date.toISOString())
+      ).toEqual([
+        "2024-11-03T04:45:00.000Z",
+        "2024-11-03T05:00:00.000Z", // 01:00 EDT
+        "2024-11-03T05:45:00.000Z",
+        "2024-11-03T06:00:00.000Z", // 01:00 EST
+        "2024-11-03T06:45:00.000Z",
+        "2024-11-03T07:00:00.000Z",
+      ]);
+      expect(quarterly.prev("2024-11-03T06:00:00Z")?.toISOString()).toBe(
+        "2024-11-03T05:45:00.000Z"
+      );
+      expect(quarterly.prev("2024-11-03T06:10:00Z")?.toISOString()).toBe(
+        "2024-11-03T06:00:00.000Z"
+      );
+    });
+  });
+
+  describe("between", () => {
+    it("excludes the bounds unless inclusive", () => {
+      const quarterHours = cron("*/15 * * * *");
+      expect(
+        quarterHours.between("2024-01-01T00:00:00Z", "2024-01-01T01:00:00Z")
+      ).toHaveLength(3);
+      expect(
+        quarterHours.between(
+          "2024-01-01T00:00:00Z",
+          "2024-01-01T01:00:00Z",
+          true
+        )
+      ).toHaveLength(5);
+    });
+  });
+
+  describe("Validation", () => {
+    it("explains invalid expressions", () => {
+      expect(() => cron("0 9 * *")).toThrow(/expected 5 or 6 fields, got 4/);
+      expect(() => cron("61 * * * *")).toThrow(
+        /minute value 61 is out of range 0-59/
+      );
+      expect(() => cron("0 9 * * MOX")).toThrow(
+        /unknown day-of-week value "MOX"/
+      );
+      expect(() => cron("0 10-5 * * *")).toThrow(/starts after it ends/);
+      expect(() => cron("0 0 ? * FRI#6")).toThrow(/#1-#5/);
+      expect(() => cron("? * * * *")).toThrow(/unknown minute value "\?"/);
+      expect(() => cron("@reboot")).toThrow(/unknown macro/);
+      expect(() => new Cron("0 0 32 * *")).toThrow(RangeError);
+    });
+
+    it("keeps the expression", () => {
+      expect(cron("@daily").toString()).toBe("@daily");
+    });
+  });
+});
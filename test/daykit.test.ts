@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { DayKit, add, daykit, format, startOf } from "../src";
+
+describe("daykit", () => {
+  const now = new Date("2024-03-21T12:00:00Z");
+  const future = new Date("2024-03-22T12:00:00Z");
+
+  describe("Creation", () => {
+    it("wraps dates, strings, timestamps and instances", () => {
+      expect(daykit(now).valueOf()).toBe(now.getTime());
+      expect(daykit("2024-03-21T12:00:00Z").valueOf()).toBe(now.getTime());
+      expect(daykit(now.getTime()).valueOf()).toBe(now.getTime());
+      expect(daykit(daykit(now)).valueOf()).toBe(now.getTime());
+      expect(daykit(now)).toBeInstanceOf(DayKit);
+    });
+
+    it("inherits options from a wrapped instance", () => {
+      const tokyo = daykit(now, { timeZone: "Asia/Tokyo", locale: "ja-JP" });
+      const copy = daykit(tokyo);
+      expect(copy.timeZone).toBe("Asia/Tokyo");
+      expect(copy.locale).toBe("ja-JP");
+      expect(daykit(tokyo, { locale: "en-US" }).timeZone).toBe("Asia/Tokyo");
+    });
+
+    it("defaults to UTC and en-US", () => {
+      expect(daykit(now).timeZone).toBe("UTC");
+      expect(daykit(now).locale).toBe("en-US");
+    });
+  });
+
+  describe("Chaining", () => {
+    it("matches the nested functional calls", () => {
+      const nested = format(startOf(add(now, 1, "days"), "day"), "YYYY-MM-DD");
+      expect(
+        daykit(now).add(1, "days").startOf("day").format("YYYY-MM-DD")
+      ).toBe(nested);
+    });
+
+    it("carries the timezone through the chain", () => {
+      const result = daykit("2024-03-09T17:00:00Z", {
+        timeZone: "America/New_York",
+      })
+        .add(1, "days")
+        .startOf("day");
+      expect(result.toISOString()).toBe("2024-03-10T05:00:00.000Z");
+      expect(result.format("YYYY-MM-DD HH:mm")).toBe("2024-03-10 00:00");
+      expect(result.timeZone).toBe("America/New_York");
+    });
+
+    it("carries the locale through the chain", () => {
+      const result = daykit(now, { locale: "vi-VN" }).subtract(1, "months");
+      expect(result.format("MMMM")).toBe("Tháng 2");
+    });
+
+    it("uses the locale for the first day of the week", () => {
+      expect(
+        daykit(now, { locale: "de-DE" }).startOf("week").toISOString()
+      ).toBe("2024-03-18T00:00:00.000Z");
+      expect(daykit(now, { weekStartsOn: 3 }).endOf("week").toISOString()).toBe(
+        "2024-03-26T23:59:59.999Z"
+      );
+    });
+
+    it("converts timezone and locale without changing the instant", () => {
+      const tokyo = daykit(now).withTimeZone("Asia/Tokyo");
+      expect(tokyo.valueOf()).toBe(now.getTime());
+      expect(tokyo.format("HH:mm")).toBe("21:00");
+      expect(tokyo.withLocale("vi-VN").format("MMMM")).toBe("Tháng 3");
+    });
+  });
+
+  describe("Immutability", () => {
+    it("returns new instances", () => {
+      const original = daykit(now);
+      const added = original.add(1, "days");
+      expect(added).not.toBe(original);
+      expect(original.valueOf()).toBe(now.getTime());
+    });
+
+    it("freezes instances", () => {
+      expect(Object.isFrozen(daykit(now))).toBe(true);
+    });
+
+    it("returns copies from toDate", () => {
+      const instance = daykit(now);
+      instance.toDate().setUTCFullYear(2000);
+      expect(instance.toDate().getTime()).toBe(now.getTime());
+    });
+  });
+
+  describe("Comparison", () => {
+    it("compares with dates and instances", () => {
+      expect(daykit(now).isBefore(future)).toBe(true);
+      expect(daykit(future).isAfter(daykit(now))).toBe(true);
+      expect(daykit(future).diff(now, "hours")).toBe(24);
+    });
+
+    it("checks sameness by unit", () => {
+      expect(daykit(now).isSame(now)).toBe(true);
+      expect(daykit(now).isSame("2024-03-21T23:00:00Z", "day")).toBe(true);
+      expect(
+        daykit(now, { timeZone: "Asia/Tokyo" }).isSame(
+          "2024-03-21T23:00:00Z",
+          "day"
+        )
+      ).toBe(false);
+    });
+
+    it("labels calendar days in the instance timezone", () => {
+      expect(
+        daykit("2024-03-21T02:00:00Z", {
+          timeZone: "America/New_York",
+        })
+          .calendar(now)
+          .replace(/\u202f/g, " ")
+      ).toBe("Yesterday at 10:00 PM");
+    });
+
+    it("describes relative time in the instance locale", () => {
+      const twoHoursAgo = new Date(now.getTime() - 2 * 3_600_000);
+      expect(daykit(twoHoursAgo).fromNow(now)).toBe("2 hours ago");
+    });
+  });
+
+  describe("Conversion", () => {
+    it("serializes to ISO strings", () => {
+      expect(daykit(now).toISOString()).toBe("2024-03-21T12:00:00.000Z");
+      expect(JSON.stringify({ at: daykit(now) })).toBe(
+        '{"at":"2024-03-21T12:00:00.000Z"}'
+      );
+      expect(String(daykit(now))).toBe("2024-03-21 12:00:00");
+    });
+
+    it("handles invalid dates gracefully", () => {
+      const invalid = daykit("invalid");
+      expect(invalid.isValid()).toBe(false);
+      expect(() => invalid.add(1, "days").startOf("day")).not.toThrow();
+      expect(invalid.format()).toBe("Invalid Date");
+      expect(invalid.toJSON()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import {
+  Duration,
+  add,
+  daykit,
+  duration,
+  humanize,
+  parseDuration,
+  subtract,
+} from "../src";
+
+describe("Duration", () => {
+  describe("parseDuration", () => {
+    it("parses every field", () => {
+      const result = parseDuration("P1Y2M3W4DT5H6M7S");
+      expect(result).toBeInstanceOf(Duration);
+      expect({ ...result }).toEqual({
+        years: 1,
+        months: 2,
+        weeks: 3,
+        days: 4,
+        hours: 5,
+        minutes: 6,
+        seconds: 7,
+        milliseconds: 0,
+      });
+    });
+
+    it("parses partial durations", () => {
+      expect(parseDuration("P1Y2M10DT2H30M").days).toBe(10);
+      expect(parseDuration("PT36H").hours).toBe(36);
+      expect(parseDuration("P2W").weeks).toBe(2);
+    });
+
+    it("spreads fractional time fields down to milliseconds", () => {
+      expect({ ...parseDuration("PT1.5S") }).toMatchObject({
+        seconds: 1,
+        milliseconds: 500,
+      });
+      expect({ ...parseDuration("PT1,5H") }).toMatchObject({
+        hours: 1,
+        minutes: 30,
+      });
+    });
+
+    it("parses negative durations", () => {
+      expect({ ...parseDuration("-P1DT2H") }).toMatchObject({
+        days: -1,
+        hours: -2,
+      });
+      expect({ ...parseDuration("P1M-1D") }).toMatchObject({
+        months: 1,
+        days: -1,
+      });
+    });
+
+    it("rejects invalid input", () => {
+      expect(() => parseDuration("")).toThrow(RangeError);
+      expect(() => parseDuration("P")).toThrow(RangeError);
+      expect(() => parseDuration("P1DT")).toThrow(RangeError);
+      expect(() => parseDuration("1 day")).toThrow(RangeError);
+      expect(() => parseDuration("P1.5Y")).toThrow(RangeError);
+    });
+  });
+
+  describe("toISO", () => {
+    it("round-trips ISO strings", () => {
+      [
+        "P1Y2M10DT2H30M",
+        "P3W",
+        "PT1.5S",
+        "PT0.001S",
+        "-P1DT2H",
+        "P1M-1D",
+      ].forEach((iso) => {
+        expect(parseDuration(iso).toISO()).toBe(iso);
+      });
+    });
+
+    it("formats empty durations", () => {
+      expect(duration().toISO()).toBe("PT0S");
+    });
+
+    it("serializes to JSON", () => {
+      expect(JSON.stringify({ sla: duration({ hours: 4 }) })).toBe(
+        '{"sla":"PT4H"}'
+      );
+    });
+  });
+
+  describe("Arithmetic", () => {
+    it("negates every field", () => {
+      expect(duration({ days: 1, hours: -2 }).negate().toISO()).toBe("P-1DT2H");
+    });
+
+    it("adds and subtracts field by field", () => {
+      const total = duration({ days: 1, hours: 20 }).add({ hours: 8 });
+      expect(total.toISO()).toBe("P1DT28H");
+      expect(total.subtract(duration({ days: 1 })).toISO()).toBe("PT28H");
+    });
+
+    it("normalizes carries and signs", () => {
+      expect(duration({ hours: 28, minutes: 75 }).normalize().toISO()).toBe(
+        "P1DT5H15M"
+      );
+      expect(duration({ months: 14 }).normalize().toISO()).toBe("P1Y2M");
+      expect(duration({ hours: 1, minutes: -90 }).normalize().toISO()).toBe(
+        "-PT30M"
+      );
+      expect(duration({ weeks: 1, days: 1 }).normalize().toISO()).toBe("P8D");
+    });
+
+    it("normalizes months and days separately", () => {
+      expect(duration({ months: 1, days: -1 }).normalize().toISO()).toBe(
+        "P1M-1D"
+      );
+      expect(
+        duration({ years: 1, months: -1, hours: -25 }).normalize().toISO()
+      ).toBe("P11M-1DT-1H");
+    });
+
+    it("converts exact durations to milliseconds", () => {
+      expect(parseDuration("P1DT1.5S").toMilliseconds()).toBe(86_401_500);
+      expect(parseDuration("P1M").toMilliseconds()).toBeNaN();
+    });
+  });
+
+  describe("Date arithmetic", () => {
+    const now = new Date("2024-03-21T12:00:00Z");
+
+    it("adds a duration to a date", () => {
+      expect(add(now, parseDuration("P1Y2M10DT2H30M")).toISOString()).toBe(
+        "2025-05-31T14:30:00.000Z"
+      );
+    });
+
+    it("clamps months before adding days", () => {
+      const endOfJanuary = new Date("2024-01-31T12:00:00Z");
+      expect(
+        add(endOfJanuary, duration({ months: 1, days: 1 })).toISOString()
+      ).toBe("2024-03-01T12:00:00.000Z");
+    });
+
+    it("subtracts a duration from a date", () => {
+      expect(subtract(now, parseDuration("P1DT1H")).toISOString()).toBe(
+        "2024-03-20T11:00:00.000Z"
+      );
+    });
+
+    it("keeps the wall-clock time across DST in a timezone", () => {
+      const options = { timeZone: "America/New_York" };
+      // 12:00 EST on March 9 + 1 day 1 hour = 13:00 EDT on March 10
+      expect(
+        add(
+          "2024-03-09T17:00:00Z",
+          parseDuration("P1DT1H"),
+          options
+        ).toISOString()
+      ).toBe("2024-03-10T17:00:00.000Z");
+    });
+
+    it("works with the chainable wrapper", () => {
+      expect(
+        daykit(now)
+          .add(duration({ weeks: 1 }))
+          .toISOString()
+      ).toBe("2024-03-28T12:00:00.000Z");
+      expect(
+        daykit(now)
+          .subtract(duration({ months: 1 }))
+          .toISOString()
+      ).toBe("2024-02-21T12:00:00.000Z");
+    });
+
+    it("handles invalid dates gracefully", () => {
+      expect(() => add("invalid", duration({ days: 1 }))).not.toThrow();
+    });
+  });
+
+  describe("humanize", () => {
+    const elapsed = 2 * 3_600_000 + 5 * 60_000 + 12_000;
+
+    it("lists every non-zero unit by default", () => {
+      expect(humanize(elapsed)).toBe("2 hours, 5 minutes, 12 seconds");
+    });
+
+    it("limits the number of units", () => {
+      expect(humanize(elapsed, { largest: 2 })).toBe("2 hours, 5 minutes");
+      expect(humanize(elapsed, { largest: 1 })).toBe("2 hours");
+    });
+
+    it("formats in other locales", () => {
+      expect(humanize(elapsed, { largest: 2, locale: "vi-VN" })).toBe(
+        "2 giờ, 5 phút"
+      );
+      expect(humanize(elapsed, { largest: 2, locale: "de-DE" })).toBe(
+        "2 Stunden, 5 Minuten"
+      );
+    });
+
+    it("supports short and narrow styles", () => {
+      expect(humanize(elapsed, { largest: 2, style: "short" })).toBe(
+        "2 hr, 5 min"
+      );
+      expect(humanize(elapsed, { largest: 2, style: "narrow" })).toBe("2h 5m");
+    });
+
+    it("rounds the smallest shown unit with carry", () => {
+      const almostHour = 59 * 60_000 + 36_000;
+      expect(humanize(almostHour, { largest: 1 })).toBe("59 minutes");
+      expect(humanize(almostHour, { largest: 1, round: true })).toBe("1 hour");
+    });
+
+    it("restricts output to the given units", () => {
+      expect(humanize(3 * 86_400_000 + 3_600_000, { units: ["hours"] })).toBe(
+        "73 hours"
+      );
+      expect(humanize(1500, { units: ["seconds", "milliseconds"] })).toBe(
+        "1 second, 500 milliseconds"
+      );
+    });
+
+    it("humanizes durations", () => {
+      expect(humanize(parseDuration("P3Y5M"))).toBe("3 years, 5 months");
+      expect(humanize(parseDuration("-PT90S"))).toBe("1 minute, 30 seconds");
+    });
+
+    it("describes empty durations in the smallest unit", () => {
+      expect(humanize(0)).toBe("0 seconds");
+      expect(humanize(duration())).toBe("0 seconds");
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { bench, describe } from "vitest";
+import {
+  compileFormat,
+  format,
+  getDSTTransitions,
+  getTimezoneInfo,
+} from "../src";
+import { clearIntlCache } from "../src/cache";
+
+// One table column: 1,000 timestamps an hour apart
+const dates = Array.from(
+  { length: 1000 },
+  (_, i) => new Date(Date.UTC(2024, 0, 1) + i * 3_600_000)
+);
+const fmt = "ddd, D MMM YYYY h:mm A Z";
+const options = { locale: "en-US", timeZone: "America/New_York" };
+
+describe("format 1,000 dates", () => {
+  // Every call builds its formatters again
+  bench("format, cold cache", () => {
+    for (const date of dates) {
+      clearIntlCache();
+      format(date, fmt, options);
+    }
+  });
+
+  bench("format, warm cache", () => {
+    for (const date of dates) {
+      format(date, fmt, options);
+    }
+  });
+
+  bench("compileFormat, warm cache", () => {
+    const formatDate = compileFormat(fmt, options);
+    for (const date of dates) {
+      formatDate(date);
+    }
+  });
+});
+
+// A year sampled every 12 hours, as getDSTTransitions scans it
+const samples = Array.from(
+  { length: 732 },
+  (_, i) => new Date(Date.UTC(2024, 0, 1) + i * 43_200_000)
+);
+
+describe("getTimezoneInfo over a year", () => {
+  // Every lookup builds its formatter again
+  bench("cold cache", () => {
+    for (const date of samples) {
+      clearIntlCache();
+      getTimezoneInfo(date, "America/New_York");
+    }
+  });
+
+  bench("warm cache", () => {
+    for (const date of samples) {
+      getTimezoneInfo(date, "America/New_York");
+    }
+  });
+});
+
+// One call reuses its formatter for every lookup, so only the first call
+// pays for building it
+describe("getDSTTransitions", () => {
+  bench("cold cache", () => {
+    clearIntlCache();
+    getDSTTransitions("America/New_York", 2024);
+  });
+
+  bench("warm cache", () => {
+    getDSTTransitions("America/New_York", 2024);
+  });
+});
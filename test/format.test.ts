@@ -1,4 +1,4 @@
-import { format, add } from "../src/index";
+import { format, formatLocalized, compileFormat, add } from "../src/index";
 import { describe, expect, it } from "vitest";
 
 describe("format", () => {
@@ -52,6 +52,198 @@ describe("format", () => {
     });
   });
 
+  describe("Week formats", () => {
+    it("should format ISO weeks", () => {
+      expect(format(currentDate, "RRRR-WW")).toBe("2024-12");
+      expect(format("2024-12-30T12:00:00Z", "RRRR-WW")).toBe("2025-01");
+      expect(format("2024-12-30T12:00:00Z", "W")).toBe("1");
+    });
+
+    it("should format locale weeks", () => {
+      const sunday = "2024-12-29T12:00:00Z";
+      expect(format(sunday, "w")).toBe("1");
+      expect(format(sunday, "ww", { locale: "de-DE" })).toBe("52");
+    });
+
+    it("should keep W and w inside words literal", () => {
+      expect(format(currentDate, "Week W")).toBe("Week 12");
+    });
+  });
+
+  describe("Extended tokens", () => {
+    const date = "2024-03-05T09:07:08.045Z";
+
+    it("should format unpadded fields and fractional seconds", () => {
+      expect(format(date, "M/D H:m:s h")).toBe("3/5 9:7:8 9");
+      expect(format(date, "ss.SSS ss.SS ss.S")).toBe("08.045 08.04 08.0");
+    });
+
+    it("should format ordinals in the locale", () => {
+      const days = ["01", "02", "03", "11", "22"];
+      expect(days.map((day) => format(`2024-03-${day}`, "Do"))).toEqual([
+        "1st",
+        "2nd",
+        "3rd",
+        "11th",
+        "22nd",
+      ]);
+      expect(format(currentDate, "Do", { locale: "de-DE" })).toBe("21.");
+      expect(format("2024-03-01", "Do", { locale: "fr-FR" })).toBe("1er");
+      expect(format(currentDate, "Do", { locale: "vi-VN" })).toBe("21");
+    });
+
+    it("should format quarters and days of the year", () => {
+      expect(format(currentDate, "Q DDDD")).toBe("1 081");
+      expect(format("2024-12-31T12:00:00Z", "Q DDDD")).toBe("4 366");
+    });
+
+    it("should format offsets, zone names and timestamps", () => {
+      expect(format(currentDate, "ZZ XXX")).toBe("+00:00 +00:00");
+      const newYork = { timeZone: "America/New_York" };
+      expect(format(currentDate, "ZZ z", newYork)).toBe(
+        "-04:00 America/New_York"
+      );
+      expect(format(currentDate, "XXX", { timeZone: "Asia/Kolkata" })).toBe(
+        "+05:30"
+      );
+      expect(format(date, "X x")).toBe("1709629628 1709629628045");
+    });
+  });
+
+  describe("Calendars", () => {
+    it("should format dates in the requested calendar", () => {
+      expect(
+        format(currentDate, "D MMMM YYYY G", { calendar: "islamic-umalqura" })
+      ).toBe("11 Ramadan 1445 AH");
+      expect(format(currentDate, "YYYY-MM-DD", { calendar: "buddhist" })).toBe(
+        "2567-03-21"
+      );
+      expect(
+        format(currentDate, "GGGGYYYY年M月D日", {
+          calendar: "japanese",
+          locale: "ja-JP",
+        })
+      ).toBe("令和6年3月21日");
+      expect(format(currentDate, "MMMM D", { calendar: "hebrew" })).toBe(
+        "Adar II 11"
+      );
+    });
+
+    it("should default to the Gregorian calendar", () => {
+      expect(format(currentDate, "YYYY G GGGG")).toBe("2024 AD Anno Domini");
+      // Thai and Persian locales default to other calendars in Intl
+      expect(format(currentDate, "YYYY-MM", { locale: "th-TH" })).toBe(
+        "2024-03"
+      );
+      expect(() =>
+        format(currentDate, "YYYY", { calendar: "gregorian" })
+      ).toThrow(RangeError);
+    });
+  });
+
+  describe("Escapes", () => {
+    it("should print bracketed text as is", () => {
+      expect(format(currentDate, "[Today at] h:mm a")).toBe(
+        "Today at 12:00 pm"
+      );
+      expect(format(currentDate, "dddd [the] Do")).toBe("Thursday the 21st");
+      expect(format(currentDate, "[[YYYY]")).toBe("[YYYY");
+    });
+
+    it("should keep short tokens inside words literal", () => {
+      expect(format(currentDate, "Saturday at HH")).toBe("Saturday at 12");
+      expect(format(currentDate, "h:mma")).toBe("12:00pm");
+      expect(format(currentDate, "YYYYMMDDTHHmmss")).toBe("20240321T120000");
+    });
+
+    it("should keep words made of short tokens literal", () => {
+      expect(format(currentDate, "as")).toBe("as");
+      expect(format(currentDate, "Ms")).toBe("Ms");
+      expect(format(currentDate, "[Address] Address")).toBe("Address Address");
+      expect(format(currentDate, "Mass at HHmm")).toBe("Mass at 1200");
+    });
+
+    it("should read an hour and its day period as tokens", () => {
+      const afternoon = new Date("2024-03-21T15:04:00Z");
+      expect(format(afternoon, "hA")).toBe("3PM");
+      expect(format(afternoon, "ha")).toBe("3pm");
+      expect(format(afternoon, "hhA")).toBe("03PM");
+      expect(format(afternoon, "h:mmA")).toBe("3:04PM");
+      expect(format(afternoon, "[Today] at hA")).toBe("Today at 3PM");
+      expect(format(afternoon, "Today")).toBe("Today");
+      expect(format(afternoon, "at")).toBe("at");
+    });
+  });
+
+  describe("Localized formats", () => {
+    // Intl may separate the day period with a narrow no-break space
+    const normalize = (text: string) => text.replace(/\u202f/g, " ");
+
+    it("should format presets in the locale's field order", () => {
+      expect(formatLocalized(currentDate, "L")).toBe("03/21/2024");
+      expect(formatLocalized(currentDate, "LL")).toBe("March 21, 2024");
+      expect(formatLocalized(currentDate, "LL", { locale: "de-DE" })).toBe(
+        "21. März 2024"
+      );
+      expect(formatLocalized(currentDate, "LL", { locale: "ja-JP" })).toBe(
+        "2024年3月21日"
+      );
+      expect(normalize(formatLocalized(currentDate, "LT"))).toBe("12:00 PM");
+      expect(formatLocalized(currentDate, "LTS", { locale: "de-DE" })).toBe(
+        "12:00:00"
+      );
+    });
+
+    it("should apply the timezone and clock", () => {
+      const newYork = { timeZone: "America/New_York" };
+      expect(normalize(formatLocalized(currentDate, "LT", newYork))).toBe(
+        "8:00 AM"
+      );
+      expect(
+        formatLocalized(currentDate, "LT", { ...newYork, hour12: false })
+      ).toBe("08:00");
+    });
+
+    it("should accept Intl options", () => {
+      expect(formatLocalized(currentDate, { dateStyle: "medium" })).toBe(
+        "Mar 21, 2024"
+      );
+      expect(
+        formatLocalized(
+          currentDate,
+          { month: "short", day: "numeric" },
+          { locale: "vi-VN" }
+        )
+      ).toBe(format(currentDate, "D [thg] M", { locale: "vi-VN" }));
+    });
+
+    it("should expose presets as format tokens", () => {
+      expect(format(currentDate, "[Due] LL")).toBe("Due March 21, 2024");
+      expect(normalize(format(currentDate, "dddd, L LT"))).toBe(
+        "Thursday, 03/21/2024 12:00 PM"
+      );
+    });
+
+    it("should keep presets inside words literal", () => {
+      expect(format(currentDate, "ALL")).toBe("ALL");
+      expect(format(currentDate, "ALL LL")).toBe("ALL March 21, 2024");
+      expect(format(currentDate, "VOLT LT")).toBe("VOLT 12:00 PM");
+    });
+
+    it("should reject unknown presets", () => {
+      expect(formatLocalized(invalidDate, "LL")).toBe("Invalid Date");
+      expect(() => formatLocalized(currentDate, "LLLLL" as "LL")).toThrow(
+        RangeError
+      );
+      expect(() => formatLocalized(currentDate, "toString" as "LL")).toThrow(
+        RangeError
+      );
+      expect(() => formatLocalized(currentDate, "constructor" as "LL")).toThrow(
+        RangeError
+      );
+    });
+  });
+
   describe("Time formats", () => {
     it("should format HH correctly", () => {
       expect(format(currentDate, "HH")).toBe("12");
@@ -175,6 +367,51 @@ describe("format", () => {
     });
   });
 
+  describe("Compiled formats", () => {
+    it("should format like format", () => {
+      const options = { locale: "de-DE", timeZone: "Europe/Berlin" };
+      const fmt = "dddd, Do MMMM YYYY [um] HH:mm:ss Z (WW)";
+      const formatDate = compileFormat(fmt, options);
+      expect(formatDate(currentDate)).toBe(format(currentDate, fmt, options));
+      expect(formatDate(futureDate)).toBe(format(futureDate, fmt, options));
+      expect(formatDate(currentDate.getTime())).toBe(
+        format(currentDate, fmt, options)
+      );
+    });
+
+    it("should default to format's pattern and options", () => {
+      expect(compileFormat()(currentDate)).toBe("2024-03-21 12:00:00");
+      expect(compileFormat("h:mm A")(currentDate)).toBe("12:00 PM");
+    });
+
+    it("should return Invalid Date for invalid dates", () => {
+      expect(compileFormat("YYYY")(invalidDate)).toBe("Invalid Date");
+    });
+
+    it("should reject invalid options when compiling", () => {
+      expect(() => compileFormat("HH:mm", { timeZone: "Mars/Base" })).toThrow(
+        RangeError
+      );
+      expect(() => compileFormat("HH:mm", { calendar: "gregorian" })).toThrow(
+        RangeError
+      );
+    });
+
+    it("should not mix up cached formats", () => {
+      expect(format(currentDate, "HH:mm", { timeZone: "Asia/Tokyo" })).toBe(
+        "21:00"
+      );
+      expect(format(currentDate, "HH:mm", { timeZone: "UTC" })).toBe("12:00");
+      expect(format(currentDate, "h:mm", { hour12: false })).toBe("12:00");
+      expect(format(currentDate, "MMMM", { locale: "fr-FR" })).toBe("mars");
+      expect(format(currentDate, "YYYY")).toBe("2024");
+      expect(() => format(currentDate, "YYYY", { calendar: "" })).toThrow(
+        RangeError
+      );
+      expect(format(currentDate, "[a|b]YYYY")).toBe("a|b2024");
+    });
+  });
+
   describe("Date comparison", () => {
     it("should handle future dates", () => {
       expect(format(futureDate, "YYYY-MM-DD")).toBe("2024-03-22");
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  HolidayRule,
+  businessCalendar,
+  holidayProvider,
+  holidaysInYear,
+  parsePlainDate,
+} from "../src";
+
+describe("Holiday rules", () => {
+  // Rules as a team would keep them in a JSON file
+  const unitedStates: HolidayRule[] = JSON.parse(`[
+    { "name": "New Year's Day", "rule": "01-01", "observed": "nearest" },
+    { "name": "Martin Luther King Jr. Day", "rule": "3rd Monday of January" },
+    { "name": "Memorial Day", "rule": "last Monday of May" },
+    { "name": "Juneteenth", "rule": "06-19", "observed": "nearest", "from": 2021 },
+    { "name": "Independence Day", "rule": "07-04", "observed": "nearest" },
+    { "name": "Labor Day", "rule": "1st Mon of Sep" },
+    { "name": "Thanksgiving", "rule": "4th Thursday of November" },
+    { "name": "Christmas Day", "rule": "12-25", "observed": "nearest" }
+  ]`);
+
+  const summary = (rules: HolidayRule[], year: number) =>
+    holidaysInYear(rules, year).map(({ name, date }) => `${date} ${name}`);
+
+  describe("holidaysInYear", () => {
+    it("computes fixed, nth and last weekday rules", () => {
+      expect(summary(unitedStates, 2024)).toEqual([
+        "2024-01-01 New Year's Day",
+        "2024-01-15 Martin Luther King Jr. Day",
+        "2024-05-27 Memorial Day",
+        "2024-06-19 Juneteenth",
+        "2024-07-04 Independence Day",
+        "2024-09-02 Labor Day",
+        "2024-11-28 Thanksgiving",
+        "2024-12-25 Christmas Day",
+      ]);
+    });
+
+    it("shifts weekend holidays to the nearest workday", () => {
+      const holidays = holidaysInYear(unitedStates, 2021);
+      const independence = holidays.find(
+        ({ name }) => name === "Independence Day"
+      );
+      expect(`${independence?.actualDate}`).toBe("2021-07-04");
+      expect(`${independence?.date}`).toBe("2021-07-05");
+      expect(
+        `${holidays.find(({ name }) => name === "Christmas Day")?.date}`
+      ).toBe("2021-12-24");
+    });
+
+    it("keeps holidays observed across New Year in their rule's year", () => {
+      expect(summary(unitedStates, 2022)[0]).toBe("2021-12-31 New Year's Day");
+    });
+
+    it("respects the years a rule applies to", () => {
+      expect(
+        summary(unitedStates, 2020).some((line) => line.includes("Juneteenth"))
+      ).toBe(false);
+    });
+
+    it("computes Easter offsets", () => {
+      const rules: HolidayRule[] = [
+        { name: "Good Friday", rule: "Easter-2" },
+        { name: "Easter Sunday", rule: "Easter" },
+        { name: "Easter Monday", rule: "Easter+1" },
+      ];
+      expect(summary(rules, 2024)).toEqual([
+        "2024-03-29 Good Friday",
+        "2024-03-31 Easter Sunday",
+        "2024-04-01 Easter Monday",
+      ]);
+      expect(`${holidaysInYear(rules, 2025)[1].date}`).toBe("2025-04-20");
+      expect(`${holidaysInYear(rules, 2038)[1].date}`).toBe("2038-04-25");
+    });
+
+    it("moves colliding substitute days past each other", () => {
+      const unitedKingdom: HolidayRule[] = [
+        { name: "Christmas Day", rule: "12-25", observed: "next" },
+        { name: "Boxing Day", rule: "12-26", observed: "next" },
+      ];
+      expect(summary(unitedKingdom, 2021)).toEqual([
+        "2021-12-27 Christmas Day",
+        "2021-12-28 Boxing Day",
+      ]);
+    });
+
+    it("uses the given weekend for observed shifting", () => {
+      const rules: HolidayRule[] = [
+        { name: "Holiday", rule: "03-22", observed: "previous" },
+      ];
+      expect(
+        `${holidaysInYear(rules, 2024, { weekend: [5, 6] })[0].date}`
+      ).toBe("2024-03-21");
+    });
+
+    it("skips dates that do not exist in a year", () => {
+      const rules: HolidayRule[] = [
+        { name: "Leap Day", rule: "02-29" },
+        { name: "Fifth Friday", rule: "5th Friday of February" },
+      ];
+      expect(holidaysInYear(rules, 2023)).toEqual([]);
+      expect(summary(rules, 2024)).toEqual(["2024-02-29 Leap Day"]);
+    });
+
+    it("rejects unrecognized rules", () => {
+      expect(() =>
+        holidaysInYear([{ name: "Bad", rule: "13-01" }], 2024)
+      ).toThrow(RangeError);
+      expect(() =>
+        holidayProvider([{ name: "Bad", rule: "6th Monday of May" }])
+      ).toThrow(RangeError);
+    });
+
+    it("rejects fixed dates past the end of their month", () => {
+      for (const rule of ["02-30", "04-31", "11-31", "01-00"]) {
+        expect(() => holidaysInYear([{ name: "Bad", rule }], 2024)).toThrow(
+          RangeError
+        );
+      }
+    });
+  });
+
+  describe("holidayProvider", () => {
+    it("feeds observed dates to a business calendar", () => {
+      const calendar = businessCalendar({
+        holidays: holidayProvider(unitedStates),
+      });
+      expect(calendar.isBusinessDay(parsePlainDate("2021-07-05"))).toBe(false);
+      expect(calendar.isBusinessDay(parsePlainDate("2021-12-31"))).toBe(false);
+      expect(
+        calendar.addBusinessDays(parsePlainDate("2024-11-27"), 1).toString()
+      ).toBe("2024-11-29");
+    });
+  });
+});
@@ -8,14 +8,24 @@ import {
   isBefore,
   isAfter,
   startOf,
+  endOf,
   fromNow,
+  calendar,
   getAvailableTimezones,
   getTimezoneInfo,
   isDST,
   getDSTTransitions,
   toTimezone,
   getTimezoneOffset,
+  zonedTimeToUtc,
+  utcToZonedTime,
   getAvailableLocales,
+  getISOWeek,
+  getISOWeekYear,
+  getWeek,
+  setISOWeek,
+  getCalendarFields,
+  getAvailableCalendars,
 } from "../src";
 
 describe("DayKit", () => {
@@ -126,11 +136,130 @@ describe("DayKit", () => {
         expect(result.getUTCHours()).toBe(10);
       });
 
+      it("adds weeks correctly", () => {
+        expect(add(now, 2, "weeks").toISOString()).toBe(
+          "2024-04-04T12:00:00.000Z"
+        );
+      });
+
+      it("adds months with end-of-month clamping", () => {
+        const endOfJanuary = new Date("2024-01-31T12:00:00Z");
+        expect(add(endOfJanuary, 1, "months").toISOString()).toBe(
+          "2024-02-29T12:00:00.000Z"
+        );
+        expect(add(endOfJanuary, 3, "months").toISOString()).toBe(
+          "2024-04-30T12:00:00.000Z"
+        );
+        expect(add(endOfJanuary, -2, "months").toISOString()).toBe(
+          "2023-11-30T12:00:00.000Z"
+        );
+      });
+
+      it("adds quarters and years correctly", () => {
+        expect(add(now, 1, "quarters").toISOString()).toBe(
+          "2024-06-21T12:00:00.000Z"
+        );
+        const leapDay = new Date("2024-02-29T12:00:00Z");
+        expect(add(leapDay, 1, "years").toISOString()).toBe(
+          "2025-02-28T12:00:00.000Z"
+        );
+        expect(add(leapDay, 4, "years").toISOString()).toBe(
+          "2028-02-29T12:00:00.000Z"
+        );
+      });
+
       it("handles invalid dates gracefully", () => {
         expect(() => add(invalidDate, 1, "days")).not.toThrow();
       });
     });
 
+    describe("add with timezone", () => {
+      const ny = { timeZone: "America/New_York" };
+
+      it("keeps the wall-clock time across DST for calendar units", () => {
+        // 12:00 EST on March 9 -> 12:00 EDT on March 10
+        expect(add("2024-03-09T17:00:00Z", 1, "days", ny).toISOString()).toBe(
+          "2024-03-10T16:00:00.000Z"
+        );
+        // 12:00 EDT on November 2 -> 12:00 EST on November 3
+        expect(add("2024-11-02T16:00:00Z", 1, "days", ny).toISOString()).toBe(
+          "2024-11-03T17:00:00.000Z"
+        );
+        expect(add("2024-02-10T17:00:00Z", 1, "months", ny).toISOString()).toBe(
+          "2024-03-10T16:00:00.000Z"
+        );
+      });
+
+      it("defaults to UTC rather than the host timezone", () => {
+        const hostTimeZone = process.env.TZ;
+        process.env.TZ = "America/New_York";
+        try {
+          expect(add("2024-03-09T17:00:00Z", 1, "days").toISOString()).toBe(
+            "2024-03-10T17:00:00.000Z"
+          );
+        } finally {
+          if (hostTimeZone === undefined) {
+            delete process.env.TZ;
+          } else {
+            process.env.TZ = hostTimeZone;
+          }
+        }
+      });
+
+      it("adds absolute elapsed time for exact units", () => {
+        // 01:00 EST + 2 hours = 04:00 EDT
+        expect(add("2024-03-10T06:00:00Z", 2, "hours", ny).toISOString()).toBe(
+          "2024-03-10T08:00:00.000Z"
+        );
+      });
+
+      it("resolves spring-forward gaps", () => {
+        // 02:30 on March 10 does not exist in New York
+        const before = "2024-03-09T07:30:00Z";
+        expect(add(before, 1, "days", ny).toISOString()).toBe(
+          "2024-03-10T07:30:00.000Z"
+        );
+        expect(
+          add(before, 1, "days", {
+            ...ny,
+            disambiguation: "earlier",
+          }).toISOString()
+        ).toBe("2024-03-10T06:30:00.000Z");
+        expect(
+          add(before, 1, "days", {
+            ...ny,
+            disambiguation: "later",
+          }).toISOString()
+        ).toBe("2024-03-10T07:30:00.000Z");
+        expect(() =>
+          add(before, 1, "days", { ...ny, disambiguation: "reject" })
+        ).toThrow(RangeError);
+      });
+
+      it("resolves fall-back overlaps", () => {
+        // 01:30 on November 3 happens twice in New York
+        const before = "2024-11-02T05:30:00Z";
+        expect(add(before, 1, "days", ny).toISOString()).toBe(
+          "2024-11-03T05:30:00.000Z"
+        );
+        expect(
+          add(before, 1, "days", {
+            ...ny,
+            disambiguation: "later",
+          }).toISOString()
+        ).toBe("2024-11-03T06:30:00.000Z");
+        expect(() =>
+          add(before, 1, "days", { ...ny, disambiguation: "reject" })
+        ).toThrow(RangeError);
+      });
+
+      it("does not depend on the host timezone by default", () => {
+        expect(add("2024-03-09T17:00:00Z", 1, "days").toISOString()).toBe(
+          "2024-03-10T17:00:00.000Z"
+        );
+      });
+    });
+
     describe("subtract", () => {
       it("subtracts days correctly", () => {
         const result = subtract(now, 1, "days");
@@ -170,6 +299,68 @@ describe("DayKit", () => {
         expect(diff(now, past, "minutes")).toBe(1440);
       });
 
+      it("calculates difference in weeks", () => {
+        expect(diff(add(now, 15, "days"), now, "weeks")).toBe(2);
+      });
+
+      it("calculates difference in whole calendar months", () => {
+        const endOfJanuary = new Date("2024-01-31T12:00:00Z");
+        expect(diff("2024-02-29T12:00:00Z", endOfJanuary, "months")).toBe(1);
+        expect(diff("2024-02-29T11:59:59Z", endOfJanuary, "months")).toBe(0);
+        expect(diff("2024-03-30T12:00:00Z", endOfJanuary, "months")).toBe(1);
+        expect(diff("2024-03-31T12:00:00Z", endOfJanuary, "months")).toBe(2);
+        expect(diff(endOfJanuary, "2024-03-31T12:00:00Z", "months")).toBe(-2);
+      });
+
+      it("calculates difference in quarters and years", () => {
+        expect(diff("2025-03-20T12:00:00Z", now, "years")).toBe(0);
+        expect(diff("2025-03-21T12:00:00Z", now, "years")).toBe(1);
+        expect(diff("2025-03-21T12:00:00Z", now, "quarters")).toBe(4);
+      });
+
+      it("rounds negative calendar spans toward zero", () => {
+        const pairs = [
+          ["2024-02-20T00:00:00Z", "2024-03-15T00:00:00Z"],
+          ["2024-01-31T12:00:00Z", "2024-03-30T12:00:00Z"],
+          ["2023-05-01T00:00:00Z", "2025-04-30T00:00:00Z"],
+        ];
+        for (const unit of ["months", "quarters", "years"] as const) {
+          for (const [earlier, later] of pairs) {
+            expect(diff(earlier, later, unit)).toBe(
+              0 - diff(later, earlier, unit)
+            );
+          }
+        }
+        expect(
+          diff("2024-02-20T00:00:00Z", "2024-03-15T00:00:00Z", "months")
+        ).toBe(0);
+        expect(
+          diff("2024-01-31T12:00:00Z", "2024-03-30T12:00:00Z", "months")
+        ).toBe(-1);
+        expect(
+          diff("2023-05-01T00:00:00Z", "2025-04-30T00:00:00Z", "years")
+        ).toBe(-1);
+        expect(
+          diff("2023-05-01T00:00:00Z", "2025-04-30T00:00:00Z", "quarters")
+        ).toBe(-7);
+      });
+
+      it("counts calendar months in the given timezone", () => {
+        const options = { timeZone: "Asia/Tokyo" };
+        // March 31 00:00 to April 30 00:00 in Tokyo
+        expect(
+          diff(
+            "2024-04-29T15:00:00Z",
+            "2024-03-30T15:00:00Z",
+            "months",
+            options
+          )
+        ).toBe(1);
+        expect(
+          diff("2024-04-29T15:00:00Z", "2024-03-30T15:00:00Z", "months")
+        ).toBe(0);
+      });
+
       it("handles invalid dates gracefully", () => {
         expect(() => diff(invalidDate, now, "days")).not.toThrow();
       });
@@ -223,17 +414,260 @@ describe("DayKit", () => {
         expect(result.getUTCSeconds()).toBe(0);
       });
 
+      it("gets start of second", () => {
+        expect(
+          startOf("2024-03-21T12:34:56.789Z", "second").toISOString()
+        ).toBe("2024-03-21T12:34:56.000Z");
+      });
+
+      it("gets start of week, month, quarter and year", () => {
+        expect(startOf(now, "week").toISOString()).toBe(
+          "2024-03-17T00:00:00.000Z"
+        );
+        expect(startOf(now, "month").toISOString()).toBe(
+          "2024-03-01T00:00:00.000Z"
+        );
+        expect(startOf("2024-05-15T12:00:00Z", "quarter").toISOString()).toBe(
+          "2024-04-01T00:00:00.000Z"
+        );
+        expect(startOf(now, "year").toISOString()).toBe(
+          "2024-01-01T00:00:00.000Z"
+        );
+      });
+
+      it("takes the first day of the week from options or locale", () => {
+        expect(startOf(now, "week", { weekStartsOn: 1 }).toISOString()).toBe(
+          "2024-03-18T00:00:00.000Z"
+        );
+        expect(startOf(now, "week", { locale: "de-DE" }).toISOString()).toBe(
+          "2024-03-18T00:00:00.000Z"
+        );
+        expect(startOf(now, "week", { locale: "en-US" }).toISOString()).toBe(
+          "2024-03-17T00:00:00.000Z"
+        );
+      });
+
+      it("gets start of day in a timezone", () => {
+        // 22:30 on March 20 in New York
+        const late = "2024-03-21T02:30:00Z";
+        expect(
+          startOf(late, "day", { timeZone: "America/New_York" }).toISOString()
+        ).toBe("2024-03-20T04:00:00.000Z");
+        expect(
+          startOf(late, "month", { timeZone: "America/New_York" }).toISOString()
+        ).toBe("2024-03-01T05:00:00.000Z");
+      });
+
+      it("gets start of hour in half-hour offset timezones", () => {
+        expect(
+          startOf("2024-03-21T12:40:00Z", "hour", {
+            timeZone: "Asia/Kolkata",
+          }).toISOString()
+        ).toBe("2024-03-21T12:30:00.000Z");
+      });
+
+      it("starts the day at the first existing time when midnight is skipped", () => {
+        // Santiago skips from 00:00 to 01:00 on September 8, 2024
+        expect(
+          startOf("2024-09-08T12:00:00Z", "day", {
+            timeZone: "America/Santiago",
+          }).toISOString()
+        ).toBe("2024-09-08T04:00:00.000Z");
+      });
+
+      it("gets start of hour inside a fall-back overlap", () => {
+        // 01:30 EST, the second 01:30 on November 3 in New York
+        expect(
+          startOf("2024-11-03T06:30:00Z", "hour", {
+            timeZone: "America/New_York",
+          }).toISOString()
+        ).toBe("2024-11-03T06:00:00.000Z");
+      });
+
       it("handles invalid dates gracefully", () => {
         expect(() => startOf(invalidDate, "day")).not.toThrow();
       });
     });
+
+    describe("endOf", () => {
+      it("gets end of each unit", () => {
+        expect(endOf(now, "minute").toISOString()).toBe(
+          "2024-03-21T12:00:59.999Z"
+        );
+        expect(endOf(now, "day").toISOString()).toBe(
+          "2024-03-21T23:59:59.999Z"
+        );
+        expect(endOf(now, "week").toISOString()).toBe(
+          "2024-03-23T23:59:59.999Z"
+        );
+        expect(endOf("2024-02-10T12:00:00Z", "month").toISOString()).toBe(
+          "2024-02-29T23:59:59.999Z"
+        );
+        expect(endOf(now, "quarter").toISOString()).toBe(
+          "2024-03-31T23:59:59.999Z"
+        );
+        expect(endOf(now, "year").toISOString()).toBe(
+          "2024-12-31T23:59:59.999Z"
+        );
+      });
+
+      it("gets end of a 23-hour day in a timezone", () => {
+        const options = { timeZone: "America/New_York" };
+        const start = startOf("2024-03-10T12:00:00Z", "day", options);
+        const end = endOf("2024-03-10T12:00:00Z", "day", options);
+        expect(end.toISOString()).toBe("2024-03-11T03:59:59.999Z");
+        expect(end.getTime() - start.getTime() + 1).toBe(23 * 3_600_000);
+      });
+
+      it("handles invalid dates gracefully", () => {
+        expect(() => endOf(invalidDate, "day")).not.toThrow();
+      });
+    });
+  });
+
+  describe("Week Numbering", () => {
+    describe("getISOWeek/getISOWeekYear", () => {
+      it("numbers ISO weeks", () => {
+        expect(getISOWeek(now)).toBe(12);
+        expect(getISOWeekYear(now)).toBe(2024);
+      });
+
+      it("assigns days around New Year to the adjacent week-year", () => {
+        // Monday, December 30, 2024
+        expect(getISOWeek("2024-12-30T12:00:00Z")).toBe(1);
+        expect(getISOWeekYear("2024-12-30T12:00:00Z")).toBe(2025);
+        // Friday, January 1, 2021
+        expect(getISOWeek("2021-01-01T12:00:00Z")).toBe(53);
+        expect(getISOWeekYear("2021-01-01T12:00:00Z")).toBe(2020);
+      });
+
+      it("reads the date in a timezone", () => {
+        // Sunday in UTC, already Monday in Tokyo
+        const date = "2024-12-29T23:30:00Z";
+        expect(getISOWeek(date)).toBe(52);
+        expect(getISOWeek(date, { timeZone: "Asia/Tokyo" })).toBe(1);
+      });
+
+      it("returns NaN for invalid dates", () => {
+        expect(getISOWeek(invalidDate)).toBeNaN();
+        expect(getISOWeekYear(invalidDate)).toBeNaN();
+      });
+    });
+
+    describe("getWeek", () => {
+      const sunday = "2024-12-29T12:00:00Z";
+
+      it("uses the locale's week rules", () => {
+        // en-US: weeks start on Sunday, week 1 holds January 1
+        expect(getWeek(sunday)).toBe(1);
+        expect(getWeek(now)).toBe(12);
+        // de-DE: ISO weeks
+        expect(getWeek(sunday, { locale: "de-DE" })).toBe(52);
+      });
+
+      it("accepts explicit week rules", () => {
+        expect(
+          getWeek(sunday, { weekStartsOn: 1, firstWeekContainsDate: 4 })
+        ).toBe(52);
+        expect(getWeek(sunday, { locale: "de-DE", weekStartsOn: 0 })).toBe(1);
+        expect(getWeek(invalidDate)).toBeNaN();
+      });
+    });
+
+    describe("setISOWeek", () => {
+      it("keeps the weekday and time", () => {
+        expect(setISOWeek(now, 1).toISOString()).toBe(
+          "2024-01-04T12:00:00.000Z"
+        );
+        // 2024 has 52 ISO weeks
+        expect(setISOWeek(now, 53).toISOString()).toBe(
+          "2025-01-02T12:00:00.000Z"
+        );
+      });
+
+      it("keeps the wall-clock time across DST", () => {
+        const options = { timeZone: "America/New_York" };
+        // Thursday 09:00 EST in week 10 → 09:00 EDT in week 11
+        expect(
+          setISOWeek("2024-03-07T14:00:00Z", 11, options).toISOString()
+        ).toBe("2024-03-14T13:00:00.000Z");
+      });
+
+      it("rejects invalid weeks", () => {
+        expect(setISOWeek(invalidDate, 1).getTime()).toBeNaN();
+        expect(() => setISOWeek(now, 1.5)).toThrow(RangeError);
+      });
+    });
+  });
+
+  describe("Calendars", () => {
+    describe("getCalendarFields", () => {
+      it("reads dates in other calendars", () => {
+        expect(getCalendarFields(now, "islamic-umalqura")).toEqual({
+          calendar: "islamic-umalqura",
+          era: "AH",
+          year: 1445,
+          month: 9,
+          day: 11,
+        });
+        expect(getCalendarFields(now, "japanese")).toMatchObject({
+          era: "Reiwa",
+          year: 6,
+          month: 3,
+        });
+        expect(getCalendarFields(now, "persian")).toMatchObject({
+          year: 1403,
+          month: 1,
+          day: 2,
+        });
+      });
+
+      it("counts leap months", () => {
+        // Adar II, the 7th month of the leap year 5784
+        expect(getCalendarFields(now, "hebrew")).toMatchObject({
+          year: 5784,
+          month: 7,
+          day: 11,
+        });
+        // The leap month after the 2nd month of 2023
+        expect(
+          getCalendarFields("2023-04-01T00:00:00Z", "chinese")
+        ).toMatchObject({ era: "", year: 2023, month: 3, day: 11 });
+      });
+
+      it("reads the date in a timezone", () => {
+        expect(
+          getCalendarFields("2024-03-21T22:00:00Z", "buddhist", "Asia/Tokyo")
+        ).toMatchObject({ year: 2567, month: 3, day: 22 });
+      });
+
+      it("rejects unknown calendars", () => {
+        expect(getCalendarFields(invalidDate, "hebrew")).toBeNull();
+        expect(() => getCalendarFields(now, "gregorian")).toThrow(RangeError);
+      });
+    });
+
+    describe("getAvailableCalendars", () => {
+      it("lists calendar identifiers", () => {
+        expect(getAvailableCalendars()).toEqual(
+          expect.arrayContaining(["gregory", "hebrew", "islamic-umalqura"])
+        );
+      });
+    });
   });
 
   describe("Relative Time", () => {
     describe("fromNow", () => {
-      it('returns "just now" for recent dates', () => {
+      it('returns the localized "now" for recent dates', () => {
         const recent = new Date(now.getTime() - 5 * 1000); // 5 seconds ago
-        expect(fromNow(recent, now)).toBe("just now");
+        expect(fromNow(recent, now)).toBe("now");
+        expect(fromNow(recent, now, { locale: "de-DE" })).toBe("jetzt");
+        expect(fromNow(recent, now, { nowText: "just now" })).toBe("just now");
+      });
+
+      it("returns seconds ago", () => {
+        const secondsAgo = new Date(now.getTime() - 30 * 1000);
+        expect(fromNow(secondsAgo, now)).toBe("30 seconds ago");
       });
 
       it("returns minutes ago", () => {
@@ -256,12 +690,146 @@ describe("DayKit", () => {
         expect(fromNow(future, now)).toBe("in 2 hours");
       });
 
+      it("returns weeks, months and years", () => {
+        const day = 24 * 60 * 60 * 1000;
+        expect(fromNow(new Date(now.getTime() - 14 * day), now)).toBe(
+          "2 weeks ago"
+        );
+        expect(fromNow(new Date(now.getTime() - 60 * day), now)).toBe(
+          "2 months ago"
+        );
+        expect(fromNow(new Date(now.getTime() - 400 * day), now)).toBe(
+          "last year"
+        );
+        expect(
+          fromNow(new Date(now.getTime() - 400 * day), now, {
+            numeric: "always",
+          })
+        ).toBe("1 year ago");
+      });
+
+      it("uses phrases like yesterday unless numeric is always", () => {
+        const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+        expect(fromNow(yesterday, now)).toBe("yesterday");
+        expect(fromNow(yesterday, now, { numeric: "always" })).toBe(
+          "1 day ago"
+        );
+      });
+
+      it("applies custom thresholds", () => {
+        const thresholds = { s: 45, m: 45, h: 22, d: 26 };
+        expect(
+          fromNow(new Date(now.getTime() - 50 * 60 * 1000), now, {
+            thresholds,
+          })
+        ).toBe("1 hour ago");
+        expect(
+          fromNow(new Date(now.getTime() - 10 * 24 * 60 * 60 * 1000), now, {
+            thresholds,
+          })
+        ).toBe("10 days ago");
+      });
+
+      it("applies the rounding mode", () => {
+        const ninetyMinutesAgo = new Date(now.getTime() - 90 * 60 * 1000);
+        expect(fromNow(ninetyMinutesAgo, now)).toBe("2 hours ago");
+        expect(fromNow(ninetyMinutesAgo, now, { rounding: "floor" })).toBe(
+          "1 hour ago"
+        );
+      });
+
+      it("formats in other locales", () => {
+        const hoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000);
+        expect(fromNow(hoursAgo, now, { locale: "vi-VN" })).toBe("2 giờ trước");
+      });
+
       it("handles invalid dates gracefully", () => {
         expect(() => fromNow(invalidDate, now)).not.toThrow();
       });
     });
   });
 
+  describe("Calendar Labels", () => {
+    describe("calendar", () => {
+      // ICU may separate the time and day period with a narrow no-break space
+      const label = (...args: Parameters<typeof calendar>) =>
+        calendar(...args).replace(/\u202f/g, " ");
+
+      it("labels today, yesterday and tomorrow", () => {
+        expect(label("2024-03-21T09:15:00Z", now)).toBe("Today at 9:15 AM");
+        expect(label("2024-03-20T15:04:00Z", now)).toBe("Yesterday at 3:04 PM");
+        expect(label("2024-03-22T15:04:00Z", now)).toBe("Tomorrow at 3:04 PM");
+      });
+
+      it("labels the previous and next week", () => {
+        expect(label("2024-03-18T15:04:00Z", now)).toBe(
+          "Last Monday at 3:04 PM"
+        );
+        expect(label("2024-03-26T15:04:00Z", now)).toBe(
+          "Next Tuesday at 3:04 PM"
+        );
+      });
+
+      it("uses the L date for anything further away", () => {
+        expect(label("2024-03-01T15:04:00Z", now)).toBe("03/01/2024");
+        expect(label("2024-03-28T15:04:00Z", now)).toBe("03/28/2024");
+        expect(label("2024-03-01T15:04:00Z", now, { locale: "de-DE" })).toBe(
+          "01.03.2024"
+        );
+      });
+
+      it("counts days in the viewer's timezone", () => {
+        // 22:00 on March 20 in New York
+        expect(
+          label("2024-03-21T02:00:00Z", now, {
+            timeZone: "America/New_York",
+          })
+        ).toBe("Yesterday at 10:00 PM");
+      });
+
+      it("uses the viewer's locale", () => {
+        expect(label("2024-03-20T15:04:00Z", now, { locale: "de-DE" })).toBe(
+          "Gestern um 15:04"
+        );
+      });
+
+      it("shows the date for last and next week without a local phrase", () => {
+        const de = { locale: "de-DE" };
+        expect(label("2024-03-18T15:04:00Z", now, de)).toBe("18.03.2024");
+        expect(label("2024-03-25T15:04:00Z", now, de)).toBe("25.03.2024");
+        expect(
+          label("2024-03-18T15:04:00Z", now, {
+            ...de,
+            formats: { sameElse: "dddd, D. MMMM" },
+          })
+        ).toBe("Montag, 18. März");
+        expect(
+          label("2024-03-18T15:04:00Z", now, {
+            ...de,
+            formats: { lastWeek: "[letzten] dddd [um] HH:mm" },
+          })
+        ).toBe("letzten Montag um 15:04");
+      });
+
+      it("overrides buckets with a format string or callback", () => {
+        const formats = {
+          sameElse: "YYYY-MM-DD",
+          lastDay: (date: Date) => `Gestern ${date.getUTCHours()}h`,
+        };
+        expect(label("2024-03-01T15:04:00Z", now, { formats })).toBe(
+          "2024-03-01"
+        );
+        expect(label("2024-03-20T15:04:00Z", now, { formats })).toBe(
+          "Gestern 15h"
+        );
+      });
+
+      it("handles invalid dates gracefully", () => {
+        expect(label(invalidDate, now)).toBe("Invalid Date");
+      });
+    });
+  });
+
   describe("Timezone Functions", () => {
     describe("getAvailableTimezones", () => {
       it("returns an array of timezone strings", () => {
@@ -288,6 +856,19 @@ describe("DayKit", () => {
         expect(info.abbreviation).toBe("UTC");
       });
 
+      it("detects DST in the southern hemisphere", () => {
+        const january = getTimezoneInfo(
+          "2024-01-15T00:00:00Z",
+          "Australia/Sydney"
+        );
+        const july = getTimezoneInfo(
+          "2024-07-15T00:00:00Z",
+          "Australia/Sydney"
+        );
+        expect(january).toMatchObject({ offset: 660, isDST: true });
+        expect(july).toMatchObject({ offset: 600, isDST: false });
+      });
+
       it("handles invalid timezone gracefully", () => {
         const info = getTimezoneInfo(now, "Invalid/Timezone");
         expect(info).toEqual({
@@ -327,10 +908,103 @@ describe("DayKit", () => {
         ).toBe(true);
       });
 
+      it("finds exact transitions with offsets and abbreviations", () => {
+        const { start, end, transitions } = getDSTTransitions(
+          "America/New_York",
+          2024
+        );
+        expect(start?.toISOString()).toBe("2024-03-10T07:00:00.000Z");
+        expect(end?.toISOString()).toBe("2024-11-03T06:00:00.000Z");
+        expect(transitions).toEqual([
+          {
+            date: new Date("2024-03-10T07:00:00Z"),
+            offsetBefore: -300,
+            offsetAfter: -240,
+            abbreviationBefore: "EST",
+            abbreviationAfter: "EDT",
+            type: "start",
+          },
+          {
+            date: new Date("2024-11-03T06:00:00Z"),
+            offsetBefore: -240,
+            offsetAfter: -300,
+            abbreviationBefore: "EDT",
+            abbreviationAfter: "EST",
+            type: "end",
+          },
+        ]);
+      });
+
+      it("works for other years and zones", () => {
+        const london = getDSTTransitions("Europe/London", 2023);
+        expect(london.start?.toISOString()).toBe("2023-03-26T01:00:00.000Z");
+        expect(london.end?.toISOString()).toBe("2023-10-29T01:00:00.000Z");
+      });
+
+      it("labels southern hemisphere transitions", () => {
+        const { start, end, transitions } = getDSTTransitions(
+          "Australia/Sydney",
+          2024
+        );
+        expect(end?.toISOString()).toBe("2024-04-06T16:00:00.000Z");
+        expect(start?.toISOString()).toBe("2024-10-05T16:00:00.000Z");
+        expect(transitions.map(({ type }) => type)).toEqual(["end", "start"]);
+      });
+
+      it("finds half-hour shifts", () => {
+        const { transitions } = getDSTTransitions("Australia/Lord_Howe", 2024);
+        expect(
+          transitions.map(({ offsetBefore, offsetAfter }) => [
+            offsetBefore,
+            offsetAfter,
+          ])
+        ).toEqual([
+          [660, 630],
+          [630, 660],
+        ]);
+      });
+
+      it("labels each transition by the offsets around it", () => {
+        // Morocco drops to +00 for Ramadan; January and July are both +01
+        const { start, end, transitions } = getDSTTransitions(
+          "Africa/Casablanca",
+          2024
+        );
+        expect(end?.toISOString()).toBe("2024-03-10T02:00:00.000Z");
+        expect(start?.toISOString()).toBe("2024-04-14T02:00:00.000Z");
+        expect(transitions.map(({ type }) => type)).toEqual(["end", "start"]);
+      });
+
+      it("reports permanent offset changes as changes", () => {
+        const { start, end, transitions } = getDSTTransitions(
+          "Europe/Moscow",
+          2014
+        );
+        expect(start).toBeNull();
+        expect(end).toBeNull();
+        expect(transitions).toHaveLength(1);
+        expect(transitions[0].type).toBe("change");
+      });
+
+      it("returns a single transition when DST is abolished", () => {
+        const { start, end, transitions } = getDSTTransitions(
+          "America/Sao_Paulo",
+          2019
+        );
+        expect(start).toBeNull();
+        expect(end?.toISOString()).toBe("2019-02-17T02:00:00.000Z");
+        expect(transitions).toHaveLength(1);
+      });
+
+      it("returns no transitions for zones without DST", () => {
+        expect(getDSTTransitions("Asia/Tokyo", 2024).transitions).toEqual([]);
+      });
+
       it("returns null transitions for UTC", () => {
         const transitions = getDSTTransitions("UTC", 2024);
         expect(transitions.start).toBeNull();
         expect(transitions.end).toBeNull();
+        expect(transitions.transitions).toEqual([]);
       });
 
       it("handles invalid timezone gracefully", () => {
@@ -340,6 +1014,112 @@ describe("DayKit", () => {
       });
     });
 
+    describe("zonedTimeToUtc", () => {
+      const newYork = "America/New_York";
+
+      it("converts wall-clock time to the UTC instant", () => {
+        expect(
+          zonedTimeToUtc(
+            { year: 2024, month: 3, day: 21, hour: 8 },
+            newYork
+          ).toISOString()
+        ).toBe("2024-03-21T12:00:00.000Z");
+        expect(
+          zonedTimeToUtc(
+            { year: 2024, month: 3, day: 21, hour: 21, minute: 30 },
+            "Asia/Tokyo"
+          ).toISOString()
+        ).toBe("2024-03-21T12:30:00.000Z");
+      });
+
+      it("resolves DST gaps and overlaps", () => {
+        const gap = { year: 2024, month: 3, day: 10, hour: 2, minute: 30 };
+        const overlap = { year: 2024, month: 11, day: 3, hour: 1, minute: 30 };
+        expect(zonedTimeToUtc(gap, newYork).toISOString()).toBe(
+          "2024-03-10T07:30:00.000Z"
+        );
+        expect(
+          zonedTimeToUtc(gap, newYork, {
+            disambiguation: "earlier",
+          }).toISOString()
+        ).toBe("2024-03-10T06:30:00.000Z");
+        expect(zonedTimeToUtc(overlap, newYork).toISOString()).toBe(
+          "2024-11-03T05:30:00.000Z"
+        );
+        expect(
+          zonedTimeToUtc(overlap, newYork, {
+            disambiguation: "later",
+          }).toISOString()
+        ).toBe("2024-11-03T06:30:00.000Z");
+        expect(() =>
+          zonedTimeToUtc(gap, newYork, { disambiguation: "reject" })
+        ).toThrow(RangeError);
+      });
+
+      it("uses the offset to pick an instant of an overlap", () => {
+        const overlap = { year: 2024, month: 11, day: 3, hour: 1, minute: 30 };
+        expect(
+          zonedTimeToUtc({ ...overlap, offset: -300 }, newYork).toISOString()
+        ).toBe("2024-11-03T06:30:00.000Z");
+      });
+
+      it("round-trips every instant", () => {
+        [
+          "2024-03-10T06:59:59.999Z",
+          "2024-03-10T07:00:00.000Z",
+          "2024-11-03T05:30:00.000Z",
+          "2024-11-03T06:30:00.000Z",
+        ].forEach((iso) => {
+          expect(
+            zonedTimeToUtc(utcToZonedTime(iso, newYork), newYork).toISOString()
+          ).toBe(iso);
+        });
+      });
+
+      it("returns an invalid date for non-finite fields", () => {
+        expect(
+          zonedTimeToUtc({ year: NaN, month: 1, day: 1 }, newYork).getTime()
+        ).toBeNaN();
+      });
+    });
+
+    describe("utcToZonedTime", () => {
+      it("reads wall-clock fields and the offset", () => {
+        expect(utcToZonedTime(now, "America/New_York")).toEqual({
+          year: 2024,
+          month: 3,
+          day: 21,
+          hour: 8,
+          minute: 0,
+          second: 0,
+          millisecond: 0,
+          offset: -240,
+        });
+        expect(
+          utcToZonedTime("2024-12-31T20:00:00.250Z", "Asia/Kolkata")
+        ).toEqual({
+          year: 2025,
+          month: 1,
+          day: 1,
+          hour: 1,
+          minute: 30,
+          second: 0,
+          millisecond: 250,
+          offset: 330,
+        });
+      });
+
+      it("returns NaN fields for invalid dates", () => {
+        expect(utcToZonedTime(invalidDate, "UTC").offset).toBeNaN();
+      });
+
+      it("throws for unknown timezones", () => {
+        expect(() => utcToZonedTime(now, "Invalid/Timezone")).toThrow(
+          RangeError
+        );
+      });
+    });
+
     describe("toTimezone", () => {
       it("converts date to target timezone", () => {
         const nyTime = toTimezone(now, "America/New_York");
@@ -385,6 +1165,7 @@ describe("DayKit", () => {
       expect(() => isBefore(invalidDate, now)).not.toThrow();
       expect(() => isAfter(invalidDate, now)).not.toThrow();
       expect(() => startOf(invalidDate, "day")).not.toThrow();
+      expect(() => endOf(invalidDate, "day")).not.toThrow();
       expect(() => fromNow(invalidDate, now)).not.toThrow();
     });
 
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { Interval, interval, mergeAll } from "../src";
+
+const at = (hour: number) =>
+  `2024-03-21T${hour.toString().padStart(2, "0")}:00:00.000Z`;
+const hours = (from: number, to: number, bounds?: Interval["bounds"]) =>
+  interval(at(from), at(to), { bounds });
+const show = (items: Interval[]) =>
+  items.map((item) => `${item.bounds[0]}${item}${item.bounds[1]}`);
+
+describe("Interval", () => {
+  describe("Construction", () => {
+    it("stores ends and bounds", () => {
+      const morning = hours(9, 12);
+      expect(morning.start.toISOString()).toBe(at(9));
+      expect(morning.bounds).toBe("[)");
+      expect(morning.length).toBe(3 * 3_600_000);
+      expect(morning.toString()).toBe(`${at(9)}/${at(12)}`);
+      expect(JSON.stringify({ morning })).toBe(
+        `{"morning":"${at(9)}/${at(12)}"}`
+      );
+    });
+
+    it("does not share its ends", () => {
+      const start = new Date(at(9));
+      const morning = interval(start, at(12));
+      start.setUTCHours(0);
+      morning.start.setUTCHours(0);
+      morning.end.setUTCFullYear(2000);
+      expect(morning.toString()).toBe(`${at(9)}/${at(12)}`);
+      expect(morning.start).not.toBe(morning.start);
+    });
+
+    it("rejects invalid intervals", () => {
+      expect(() => hours(12, 9)).toThrow(RangeError);
+      expect(() => interval("invalid", at(9))).toThrow(RangeError);
+      expect(
+        () => new Interval(at(9), at(12), { bounds: "<>" as "[)" })
+      ).toThrow(RangeError);
+    });
+
+    it("detects empty intervals", () => {
+      expect(hours(9, 9).isEmpty()).toBe(true);
+      expect(hours(9, 9, "[]").isEmpty()).toBe(false);
+    });
+  });
+
+  describe("Predicates", () => {
+    it("checks containment with bounds", () => {
+      expect(hours(9, 12).contains(at(9))).toBe(true);
+      expect(hours(9, 12).contains(at(12))).toBe(false);
+      expect(hours(9, 12, "(]").contains(at(9))).toBe(false);
+      expect(hours(9, 12, "(]").contains(at(12))).toBe(true);
+      expect(hours(9, 12).contains("invalid")).toBe(false);
+
+      expect(hours(9, 12).contains(hours(10, 12))).toBe(true);
+      expect(hours(9, 12).contains(hours(10, 12, "[]"))).toBe(false);
+      expect(hours(9, 12).contains(hours(8, 10))).toBe(false);
+    });
+
+    it("checks overlap and abutment", () => {
+      expect(hours(9, 12).overlaps(hours(11, 13))).toBe(true);
+      expect(hours(9, 12).overlaps(hours(12, 13))).toBe(false);
+      expect(hours(9, 12, "[]").overlaps(hours(12, 13))).toBe(true);
+
+      expect(hours(9, 12).abuts(hours(12, 13))).toBe(true);
+      expect(hours(12, 13).abuts(hours(9, 12))).toBe(true);
+      expect(hours(9, 12, "[]").abuts(hours(12, 13))).toBe(false);
+      expect(hours(9, 12, "()").abuts(hours(12, 13, "()"))).toBe(false);
+    });
+  });
+
+  describe("Set operations", () => {
+    it("intersects", () => {
+      expect(
+        show([hours(9, 12).intersection(hours(11, 13)) as Interval])
+      ).toEqual([`[${at(11)}/${at(12)})`]);
+      expect(hours(9, 12).intersection(hours(12, 13))).toBeNull();
+      expect(hours(9, 12, "[]").intersection(hours(12, 13))?.bounds).toBe("[]");
+    });
+
+    it("unites overlapping or abutting intervals", () => {
+      expect(hours(9, 12).union(hours(12, 13))?.toString()).toBe(
+        `${at(9)}/${at(13)}`
+      );
+      expect(hours(9, 12, "(]").union(hours(10, 12))?.bounds).toBe("(]");
+      expect(hours(9, 11).union(hours(12, 13))).toBeNull();
+    });
+
+    it("subtracts", () => {
+      expect(show(hours(9, 17).difference(hours(12, 13)))).toEqual([
+        `[${at(9)}/${at(12)})`,
+        `[${at(13)}/${at(17)})`,
+      ]);
+      expect(show(hours(9, 17).difference(hours(12, 13, "()")))).toEqual([
+        `[${at(9)}/${at(12)}]`,
+        `[${at(13)}/${at(17)})`,
+      ]);
+      expect(show(hours(9, 12).difference(hours(11, 14)))).toEqual([
+        `[${at(9)}/${at(11)})`,
+      ]);
+      expect(hours(9, 12).difference(hours(8, 13))).toEqual([]);
+      const apart = hours(9, 12);
+      expect(apart.difference(hours(12, 13))).toEqual([apart]);
+    });
+
+    it("merges lists", () => {
+      const shifts = [
+        hours(14, 18),
+        hours(9, 12),
+        hours(11, 13),
+        hours(13, 14),
+        hours(20, 22),
+        hours(21, 21),
+      ];
+      expect(show(mergeAll(shifts))).toEqual([
+        `[${at(9)}/${at(18)})`,
+        `[${at(20)}/${at(22)})`,
+      ]);
+      expect(mergeAll([])).toEqual([]);
+    });
+  });
+
+  describe("Splitting", () => {
+    it("splits by local days across DST", () => {
+      const week = interval("2024-03-09T12:00:00Z", "2024-03-11T12:00:00Z");
+      const days = week.splitBy("day", { timeZone: "America/New_York" });
+      expect(days.map(String)).toEqual([
+        "2024-03-09T12:00:00.000Z/2024-03-10T05:00:00.000Z",
+        // The 23-hour DST day
+        "2024-03-10T05:00:00.000Z/2024-03-11T04:00:00.000Z",
+        "2024-03-11T04:00:00.000Z/2024-03-11T12:00:00.000Z",
+      ]);
+    });
+
+    it("keeps the outer bounds", () => {
+      const pieces = hours(9, 12, "()").splitBy("hour");
+      expect(pieces.map((piece) => piece.bounds)).toEqual(["()", "[)", "[)"]);
+      expect(hours(9, 10).splitBy("day")).toHaveLength(1);
+    });
+
+    it("splits at dates", () => {
+      expect(
+        hours(9, 17)
+          .splitAt([at(12), at(8), at(13), at(12), at(17)])
+          .map(String)
+      ).toEqual([
+        `${at(9)}/${at(12)}`,
+        `${at(12)}/${at(13)}`,
+        `${at(13)}/${at(17)}`,
+      ]);
+    });
+
+    it("divides equally", () => {
+      expect(hours(9, 12).divideEqually(3).map(String)).toEqual([
+        `${at(9)}/${at(10)}`,
+        `${at(10)}/${at(11)}`,
+        `${at(11)}/${at(12)}`,
+      ]);
+      expect(() => hours(9, 12).divideEqually(0)).toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  format,
+  getAvailableLocales,
+  getLocaleInfo,
+  getMonthNames,
+  getWeekdayNames,
+} from "../src";
+
+describe("Locale information", () => {
+  describe("getLocaleInfo", () => {
+    it("reads week conventions", () => {
+      expect(getLocaleInfo("en-US")).toEqual({
+        firstDayOfWeek: 0,
+        weekend: [0, 6],
+        minimalDays: 1,
+        hourCycle: "h12",
+        direction: "ltr",
+      });
+      expect(getLocaleInfo("de-DE")).toEqual({
+        firstDayOfWeek: 1,
+        weekend: [0, 6],
+        minimalDays: 4,
+        hourCycle: "h23",
+        direction: "ltr",
+      });
+    });
+
+    it("reads Friday weekends and right-to-left scripts", () => {
+      expect(getLocaleInfo("ar-EG")).toMatchObject({
+        firstDayOfWeek: 6,
+        weekend: [5, 6],
+        direction: "rtl",
+      });
+      expect(getLocaleInfo("he-IL").direction).toBe("rtl");
+    });
+
+    it("defaults to en-US", () => {
+      expect(getLocaleInfo()).toEqual(getLocaleInfo("en-US"));
+    });
+
+    it("returns copies of the cached information", () => {
+      getLocaleInfo("en-GB").weekend.push(3);
+      expect(getLocaleInfo("en-GB").weekend).toEqual([0, 6]);
+    });
+
+    it("throws for invalid locale tags", () => {
+      expect(() => getLocaleInfo("not a locale")).toThrow(RangeError);
+    });
+
+    it("falls back to the same CLDR week data as the runtime", () => {
+      const regions = "AE AF BR CN DE EG FR GB IL IN IR JP MV PT SA UG US";
+      const native = regions.split(" ").map((region) => {
+        const { firstDay, weekend, minimalDays } = (
+          new Intl.Locale(`und-${region}`) as Intl.Locale & {
+            weekInfo: {
+              firstDay: number;
+              weekend: number[];
+              minimalDays: number;
+            };
+          }
+        ).weekInfo;
+        return {
+          firstDayOfWeek: firstDay % 7,
+          weekend: weekend.map((day) => day % 7).sort((a, b) => a - b),
+          minimalDays,
+        };
+      });
+      const prototype = Intl.Locale.prototype;
+      const descriptors = ["weekInfo", "getWeekInfo"].map(
+        (key) => [key, Object.getOwnPropertyDescriptor(prototype, key)] as const
+      );
+      try {
+        for (const [key] of descriptors) {
+          Object.defineProperty(prototype, key, {
+            value: undefined,
+            configurable: true,
+          });
+        }
+        // Tags not seen before, so nothing comes from the cache
+        const fallback = regions.split(" ").map((region) => {
+          const { firstDayOfWeek, weekend, minimalDays } = getLocaleInfo(
+            `und-${region}`
+          );
+          return { firstDayOfWeek, weekend, minimalDays };
+        });
+        expect(fallback).toEqual(native);
+      } finally {
+        for (const [key, descriptor] of descriptors) {
+          if (descriptor) {
+            Object.defineProperty(prototype, key, descriptor);
+          } else {
+            delete (prototype as unknown as Record<string, unknown>)[key];
+          }
+        }
+      }
+    });
+  });
+
+  describe("getMonthNames", () => {
+    it("lists names from January", () => {
+      expect(getMonthNames()).toHaveLength(12);
+      expect(getMonthNames("en-US")[0]).toBe("January");
+      expect(getMonthNames("fr-FR", "short")[1]).toBe("févr.");
+      expect(getMonthNames("en-US", "narrow").join("")).toBe("JFMAMJJASOND");
+    });
+
+    it("uses the Gregorian calendar", () => {
+      expect(getMonthNames("fa-IR")).toEqual(
+        getMonthNames("fa-IR-u-ca-gregory")
+      );
+    });
+
+    it("returns copies of the cached names", () => {
+      getMonthNames("en-US").reverse();
+      expect(getMonthNames("en-US")[0]).toBe("January");
+    });
+  });
+
+  describe("getWeekdayNames", () => {
+    it("starts on the locale's first day", () => {
+      expect(getWeekdayNames("en-US", "short")).toEqual([
+        "Sun",
+        "Mon",
+        "Tue",
+        "Wed",
+        "Thu",
+        "Fri",
+        "Sat",
+      ]);
+      expect(getWeekdayNames("de-DE", "short")[0]).toBe("Mo");
+    });
+
+    it("starts on weekStartsOn", () => {
+      expect(getWeekdayNames("en-US", "long", { weekStartsOn: 1 })).toEqual([
+        "Monday",
+        "Tuesday",
+        "Wednesday",
+        "Thursday",
+        "Friday",
+        "Saturday",
+        "Sunday",
+      ]);
+      expect(getWeekdayNames("en-US", "narrow", { weekStartsOn: 6 })[0]).toBe(
+        "S"
+      );
+    });
+  });
+
+  describe("getAvailableLocales", () => {
+    it("lists locale tags", () => {
+      const locales = getAvailableLocales();
+      expect(locales).toEqual(
+        expect.arrayContaining(["en-US", "de-DE", "ja-JP"])
+      );
+      expect(locales).not.toContain("gregory");
+      for (const locale of locales) {
+        expect(Intl.getCanonicalLocales(locale)).toEqual([locale]);
+      }
+    });
+
+    it("lists locales format can use", () => {
+      for (const locale of getAvailableLocales()) {
+        expect(format("2024-03-21T12:00:00Z", "MMMM", { locale })).not.toBe(
+          "Invalid Date"
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import { describe, expect, it } from "vitest";
+import { format, parse } from "../src";
+
+describe("parse", () => {
+  describe("Numeric tokens", () => {
+    it("parses the default format", () => {
+      expect(parse("2024-03-21 12:00:00").toISOString()).toBe(
+        "2024-03-21T12:00:00.000Z"
+      );
+    });
+
+    it("parses 12-hour clock with AM/PM", () => {
+      expect(
+        parse("21/03/2024 02:30 PM", "DD/MM/YYYY hh:mm A").toISOString()
+      ).toBe("2024-03-21T14:30:00.000Z");
+      expect(
+        parse("21/03/2024 12:15 am", "DD/MM/YYYY hh:mm a").toISOString()
+      ).toBe("2024-03-21T00:15:00.000Z");
+    });
+
+    it("parses two-digit years", () => {
+      expect(parse("24", "YY").getUTCFullYear()).toBe(2024);
+      expect(parse("99", "YY").getUTCFullYear()).toBe(1999);
+    });
+
+    it("parses ISO weeks", () => {
+      expect(parse("2025-01", "RRRR-WW").toISOString()).toBe(
+        "2024-12-30T00:00:00.000Z"
+      );
+      expect(parse("2020 53 Friday", "RRRR WW dddd").toISOString()).toBe(
+        "2021-01-01T00:00:00.000Z"
+      );
+      expect(parse("2024 53", "RRRR WW").toISOString()).toBe(
+        "2024-12-30T00:00:00.000Z"
+      );
+      expect(parse("2024 53", "RRRR WW", { strict: true }).getTime()).toBeNaN();
+    });
+
+    it("parses locale weeks", () => {
+      expect(parse("2025 1", "YYYY w").toISOString()).toBe(
+        "2024-12-29T00:00:00.000Z"
+      );
+      expect(parse("2025 1", "YYYY w", { locale: "de-DE" }).toISOString()).toBe(
+        "2024-12-30T00:00:00.000Z"
+      );
+    });
+
+    it("parses fractional seconds and ordinals", () => {
+      expect(
+        parse(
+          "2024-03-21 12:00:00.045",
+          "YYYY-MM-DD HH:mm:ss.SSS"
+        ).toISOString()
+      ).toBe("2024-03-21T12:00:00.045Z");
+      expect(parse("00.4", "ss.S").getUTCMilliseconds()).toBe(400);
+      expect(parse("March 21st, 2024", "MMMM Do, YYYY").toISOString()).toBe(
+        "2024-03-21T00:00:00.000Z"
+      );
+    });
+
+    it("parses quarters and days of the year", () => {
+      expect(parse("2024 Q2", "YYYY [Q]Q").toISOString()).toBe(
+        "2024-04-01T00:00:00.000Z"
+      );
+      expect(parse("2024-081", "YYYY-DDDD").toISOString()).toBe(
+        "2024-03-21T00:00:00.000Z"
+      );
+      expect(
+        parse("2023-366", "YYYY-DDDD", { strict: true }).getTime()
+      ).toBeNaN();
+      expect(
+        parse("2024-05 Q1", "YYYY-MM [Q]Q", { strict: true }).getTime()
+      ).toBeNaN();
+    });
+
+    it("parses offsets, zone names and timestamps", () => {
+      expect(
+        parse(
+          "2024-03-21T08:00:00-04:00",
+          "YYYY-MM-DD[T]HH:mm:ssZZ"
+        ).toISOString()
+      ).toBe("2024-03-21T12:00:00.000Z");
+      expect(
+        parse(
+          "2024-03-21 08:00 America/New_York",
+          "YYYY-MM-DD HH:mm z"
+        ).toISOString()
+      ).toBe("2024-03-21T12:00:00.000Z");
+      expect(parse("1711022400", "X").toISOString()).toBe(
+        "2024-03-21T12:00:00.000Z"
+      );
+      expect(parse("1711022400045", "x").toISOString()).toBe(
+        "2024-03-21T12:00:00.045Z"
+      );
+      expect(parse("2024 Mars/Base", "YYYY z").getTime()).toBeNaN();
+    });
+
+    it("defaults missing fields to the epoch", () => {
+      expect(parse("14:30", "HH:mm").toISOString()).toBe(
+        "1970-01-01T14:30:00.000Z"
+      );
+    });
+  });
+
+  describe("Locale names", () => {
+    it("parses month and weekday names", () => {
+      expect(
+        parse("Thursday, March 21, 2024", "dddd, MMMM DD, YYYY").toISOString()
+      ).toBe("2024-03-21T00:00:00.000Z");
+      expect(parse("Thu, Mar 21, 24", "ddd, MMM DD, YY").toISOString()).toBe(
+        "2024-03-21T00:00:00.000Z"
+      );
+    });
+
+    it("parses names in other locales", () => {
+      expect(
+        parse("Thứ Năm, Tháng 3 21 2024", "dddd, MMMM DD YYYY", {
+          locale: "vi-VN",
+        }).toISOString()
+      ).toBe("2024-03-21T00:00:00.000Z");
+    });
+  });
+
+  describe("Timezone support", () => {
+    it("reads wall-clock time in the given timezone", () => {
+      expect(
+        parse("2024-03-21 08:00", "YYYY-MM-DD HH:mm", {
+          timeZone: "America/New_York",
+        }).toISOString()
+      ).toBe("2024-03-21T12:00:00.000Z");
+    });
+
+    it("prefers a numeric offset over the timezone", () => {
+      expect(
+        parse("2024-03-21 12:00 +07:00", "YYYY-MM-DD HH:mm Z", {
+          timeZone: "America/New_York",
+        }).toISOString()
+      ).toBe("2024-03-21T05:00:00.000Z");
+      expect(
+        parse("2024-03-21 12:00 GMT+7", "YYYY-MM-DD HH:mm Z").toISOString()
+      ).toBe("2024-03-21T05:00:00.000Z");
+    });
+
+    it("uses a zone name to pick between overlapping instants", () => {
+      const options = { timeZone: "America/New_York" };
+      expect(
+        parse(
+          "2024-11-03 01:30 EDT",
+          "YYYY-MM-DD HH:mm Z",
+          options
+        ).toISOString()
+      ).toBe("2024-11-03T05:30:00.000Z");
+      expect(
+        parse(
+          "2024-11-03 01:30 EST",
+          "YYYY-MM-DD HH:mm Z",
+          options
+        ).toISOString()
+      ).toBe("2024-11-03T06:30:00.000Z");
+    });
+
+    it("moves times inside a DST gap forward", () => {
+      expect(
+        parse("2024-03-10 02:30", "YYYY-MM-DD HH:mm", {
+          timeZone: "America/New_York",
+        }).toISOString()
+      ).toBe("2024-03-10T07:30:00.000Z");
+    });
+  });
+
+  describe("Strict mode", () => {
+    it("accepts exact matches", () => {
+      expect(
+        parse("2024-03-21", "YYYY-MM-DD", { strict: true }).toISOString()
+      ).toBe("2024-03-21T00:00:00.000Z");
+    });
+
+    it("rejects unpadded fields and trailing input", () => {
+      expect(parse("2024-3-21", "YYYY-MM-DD").getUTCMonth()).toBe(2);
+      expect(
+        parse("2024-3-21", "YYYY-MM-DD", { strict: true }).getTime()
+      ).toBeNaN();
+      expect(
+        parse("2024-03-21 extra", "YYYY-MM-DD", { strict: true }).getTime()
+      ).toBeNaN();
+    });
+
+    it("rejects out-of-range fields", () => {
+      expect(
+        parse("2024-02-30", "YYYY-MM-DD", { strict: true }).getTime()
+      ).toBeNaN();
+      expect(
+        parse("2023-02-29", "YYYY-MM-DD", { strict: true }).getTime()
+      ).toBeNaN();
+    });
+
+    it("rejects an inconsistent weekday", () => {
+      expect(
+        parse("Fri, 21 Mar 2024", "ddd, DD MMM YYYY", {
+          strict: true,
+        }).getTime()
+      ).toBeNaN();
+    });
+
+    it("rejects wall-clock times inside a DST gap", () => {
+      expect(
+        parse("2024-03-10 02:30", "YYYY-MM-DD HH:mm", {
+          timeZone: "America/New_York",
+          strict: true,
+        }).getTime()
+      ).toBeNaN();
+    });
+  });
+
+  describe("Round trip", () => {
+    const date = new Date("2024-11-03T05:30:00Z");
+    const patterns = [
+      "YYYY-MM-DD HH:mm:ss",
+      "DD/MM/YYYY hh:mm A",
+      "dddd, MMMM DD, YYYY hh:mm:ss a Z",
+      "ddd, DD MMM YY HH:mm Z",
+      "RRRR-WW dddd HH:mm",
+      "Do MMMM YYYY [at] h:mm:ss.SSS a XXX z",
+      "[Q]Q DDDD YYYY H:m:s",
+      "D MMM YYYY GGGG",
+      "L LTS",
+      "LLLL",
+      "dddd LL [at] LT",
+    ];
+    const optionsList = [
+      {},
+      { timeZone: "America/New_York" },
+      { timeZone: "Asia/Ho_Chi_Minh", locale: "vi-VN" },
+      { timeZone: "Europe/Berlin", locale: "de-DE" },
+    ];
+
+    patterns.forEach((pattern) => {
+      optionsList.forEach((options) => {
+        it(`round-trips "${pattern}" with ${JSON.stringify(options)}`, () => {
+          const text = format(date, pattern, options);
+          expect(format(parse(text, pattern, options), pattern, options)).toBe(
+            text
+          );
+        });
+      });
+    });
+  });
+
+  describe("Edge cases", () => {
+    it("returns an invalid date for non-matching input", () => {
+      expect(parse("not a date", "YYYY-MM-DD").getTime()).toBeNaN();
+    });
+
+    it("reads Gregorian eras only", () => {
+      expect(parse("101 BC", "YYYY G").getUTCFullYear()).toBe(-100);
+      expect(parse("101 Before Christ", "YYYY GGGG").getUTCFullYear()).toBe(
+        -100
+      );
+      expect(() =>
+        parse("1445-09-11", "YYYY-MM-DD", { calendar: "islamic-umalqura" })
+      ).toThrow(/Gregorian calendar only, not "islamic-umalqura"/);
+    });
+
+    it("reads localized presets in the locale's field order", () => {
+      expect(parse("March 21, 2024", "LL").toISOString()).toBe(
+        "2024-03-21T00:00:00.000Z"
+      );
+      expect(
+        parse("21 марта 2024 г. в 12:34", "LLL", { locale: "ru-RU" })
+      ).toEqual(new Date("2024-03-21T12:34:00Z"));
+      expect(parse("오후 4:34", "LT", { locale: "ko-KR" })).toEqual(
+        new Date("1970-01-01T16:34:00Z")
+      );
+      const date = new Date("2024-03-21T16:34:56Z");
+      for (const locale of ["en-US", "de-DE", "ja-JP", "ko-KR", "ru-RU"]) {
+        for (const preset of ["L", "LL", "LLL", "LLLL", "LTS"]) {
+          const options = { locale, timeZone: "America/New_York" };
+          const text = format(date, preset, options);
+          expect(format(parse(text, preset, options), preset, options)).toBe(
+            text
+          );
+          expect(
+            parse(text, preset, { ...options, strict: true }).getTime()
+          ).not.toBeNaN();
+        }
+      }
+    });
+
+    it("does not read presets in other calendars or digits", () => {
+      // th-TH counts Buddhist years and ar-EG writes Arabic-Indic digits
+      for (const locale of ["th-TH", "ar-EG"]) {
+        const text = format(new Date("2024-03-21T00:00:00Z"), "LL", { locale });
+        expect(parse(text, "LL", { locale }).getTime()).toBeNaN();
+      }
+    });
+
+    it("handles invalid timezone gracefully", () => {
+      expect(() =>
+        parse("2024-03-21", "YYYY-MM-DD", { timeZone: "Invalid/Timezone" })
+      ).not.toThrow();
+    });
+  });
+});
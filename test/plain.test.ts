@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import {
+  PlainDate,
+  PlainDateTime,
+  PlainTime,
+  duration,
+  parsePlainDate,
+  parsePlainDateTime,
+  parsePlainTime,
+  plainDate,
+  plainDateTime,
+  plainTime,
+} from "../src";
+
+describe("Plain types", () => {
+  describe("PlainDate", () => {
+    it("parses and serializes ISO dates", () => {
+      const date = parsePlainDate("2024-03-21");
+      expect(date).toBeInstanceOf(PlainDate);
+      expect({ ...date }).toEqual({ year: 2024, month: 3, day: 21 });
+      expect(date.toString()).toBe("2024-03-21");
+      expect(JSON.stringify({ birthday: date })).toBe(
+        '{"birthday":"2024-03-21"}'
+      );
+      expect(plainDate({ year: 12, month: 1, day: 5 }).toString()).toBe(
+        "0012-01-05"
+      );
+    });
+
+    it("rejects dates that do not exist", () => {
+      expect(() => plainDate({ year: 2023, month: 2, day: 29 })).toThrow(
+        RangeError
+      );
+      expect(() => plainDate({ year: 2024, month: 13, day: 1 })).toThrow(
+        RangeError
+      );
+      expect(() => parsePlainDate("2024-3-21")).toThrow(RangeError);
+      expect(() => parsePlainDate("2024-02-30")).toThrow(RangeError);
+    });
+
+    it("does not shift the day across timezones", () => {
+      const date = parsePlainDate("2024-03-21");
+      expect(date.format("dddd, MMMM DD")).toBe("Thursday, March 21");
+      expect(date.toInstant("America/Los_Angeles").toISOString()).toBe(
+        "2024-03-21T07:00:00.000Z"
+      );
+      expect(date.toInstant("Asia/Tokyo").toISOString()).toBe(
+        "2024-03-20T15:00:00.000Z"
+      );
+    });
+
+    it("reads the date of an instant in a timezone", () => {
+      const instant = "2024-03-21T03:00:00Z";
+      expect(PlainDate.fromInstant(instant).toString()).toBe("2024-03-21");
+      expect(
+        PlainDate.fromInstant(instant, "America/Los_Angeles").toString()
+      ).toBe("2024-03-20");
+      expect(() => PlainDate.fromInstant("invalid")).toThrow(RangeError);
+    });
+
+    it("adds with TimeUnit semantics", () => {
+      const endOfJanuary = plainDate({ year: 2024, month: 1, day: 31 });
+      expect(endOfJanuary.add(1, "months").toString()).toBe("2024-02-29");
+      expect(endOfJanuary.add(1, "years").toString()).toBe("2025-01-31");
+      expect(endOfJanuary.add(2, "weeks").toString()).toBe("2024-02-14");
+      expect(endOfJanuary.subtract(1, "days").toString()).toBe("2024-01-30");
+      expect(
+        endOfJanuary.add(duration({ months: 1, days: 1 })).toString()
+      ).toBe("2024-03-01");
+    });
+
+    it("diffs in calendar units", () => {
+      const a = parsePlainDate("2024-02-29");
+      const b = parsePlainDate("2024-01-31");
+      expect(a.diff(b)).toBe(29);
+      expect(a.diff(b, "months")).toBe(1);
+      expect(b.diff(a, "weeks")).toBe(-5);
+    });
+
+    it("compares dates", () => {
+      const a = parsePlainDate("2024-03-21");
+      const b = parsePlainDate("2024-12-25");
+      expect(a.isBefore(b)).toBe(true);
+      expect(b.isAfter(a)).toBe(true);
+      expect(a.equals(parsePlainDate("2024-03-21"))).toBe(true);
+      expect([b, a].sort(PlainDate.compare)).toEqual([a, b]);
+    });
+
+    it("knows the day of the week", () => {
+      expect(parsePlainDate("2024-03-21").dayOfWeek).toBe(4);
+      expect(parsePlainDate("2024-03-24").dayOfWeek).toBe(0);
+    });
+
+    it("is immutable", () => {
+      expect(Object.isFrozen(parsePlainDate("2024-03-21"))).toBe(true);
+    });
+  });
+
+  describe("PlainTime", () => {
+    it("parses and serializes ISO times", () => {
+      expect(parsePlainTime("09:30").toString()).toBe("09:30:00");
+      expect(parsePlainTime("09:30:15.25").toString()).toBe("09:30:15.250");
+      expect(plainTime({ hour: 18 }).toString()).toBe("18:00:00");
+      expect(() => parsePlainTime("24:00")).toThrow(RangeError);
+      expect(() => plainTime({ minute: 60 })).toThrow(RangeError);
+    });
+
+    it("wraps arithmetic around midnight", () => {
+      const late = plainTime({ hour: 23, minute: 30 });
+      expect(late.add(45, "minutes").toString()).toBe("00:15:00");
+      expect(late.add(1, "days").toString()).toBe("23:30:00");
+      expect(plainTime().subtract(1, "seconds").toString()).toBe("23:59:59");
+    });
+
+    it("compares and diffs times", () => {
+      const open = plainTime({ hour: 9 });
+      const close = plainTime({ hour: 17, minute: 30 });
+      expect(close.diff(open, "minutes")).toBe(510);
+      expect(open.isBefore(close)).toBe(true);
+      expect([close, open].sort(PlainTime.compare)).toEqual([open, close]);
+    });
+
+    it("formats times", () => {
+      expect(plainTime({ hour: 14, minute: 5 }).format("hh:mm A")).toBe(
+        "02:05 PM"
+      );
+    });
+
+    it("bridges to instants on a given date", () => {
+      const open = plainTime({ hour: 9 });
+      const date = parsePlainDate("2024-03-21");
+      expect(open.toInstant("Europe/Berlin", { date }).toISOString()).toBe(
+        "2024-03-21T08:00:00.000Z"
+      );
+      expect(
+        PlainTime.fromInstant("2024-03-21T08:00:00Z", "Europe/Berlin").equals(
+          open
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe("PlainDateTime", () => {
+    it("parses and serializes ISO date-times", () => {
+      const meeting = parsePlainDateTime("2024-03-21T09:30");
+      expect(meeting).toBeInstanceOf(PlainDateTime);
+      expect(meeting.toString()).toBe("2024-03-21T09:30:00");
+      expect(parsePlainDateTime("2024-03-21 09:30:15").second).toBe(15);
+      expect(parsePlainDateTime("2024-03-21").toString()).toBe(
+        "2024-03-21T00:00:00"
+      );
+      expect(() => parsePlainDateTime("2024-03-21T09:30Z")).toThrow(RangeError);
+    });
+
+    it("combines and splits dates and times", () => {
+      const meeting = parsePlainDate("2024-03-21").at(
+        plainTime({ hour: 9, minute: 30 })
+      );
+      expect(meeting.toString()).toBe("2024-03-21T09:30:00");
+      expect(meeting.toPlainDate().toString()).toBe("2024-03-21");
+      expect(meeting.toPlainTime().toString()).toBe("09:30:00");
+    });
+
+    it("adds and diffs without a timezone", () => {
+      const start = plainDateTime({ year: 2024, month: 3, day: 9, hour: 12 });
+      expect(start.add(1, "days").toString()).toBe("2024-03-10T12:00:00");
+      expect(start.add(36, "hours").toString()).toBe("2024-03-11T00:00:00");
+      expect(start.add(1, "days").diff(start, "hours")).toBe(24);
+    });
+
+    it("resolves DST gaps and overlaps when bridging to instants", () => {
+      const newYork = "America/New_York";
+      const gap = parsePlainDateTime("2024-03-10T02:30");
+      const overlap = parsePlainDateTime("2024-11-03T01:30");
+      expect(gap.toInstant(newYork).toISOString()).toBe(
+        "2024-03-10T07:30:00.000Z"
+      );
+      expect(
+        overlap.toInstant(newYork, { disambiguation: "later" }).toISOString()
+      ).toBe("2024-11-03T06:30:00.000Z");
+      expect(() =>
+        gap.toInstant(newYork, { disambiguation: "reject" })
+      ).toThrow(RangeError);
+    });
+
+    it("round-trips through instants", () => {
+      const instant = new Date("2024-11-03T05:30:00Z");
+      const local = PlainDateTime.fromInstant(instant, "America/New_York");
+      expect(local.toString()).toBe("2024-11-03T01:30:00");
+      expect(local.toInstant("America/New_York").getTime()).toBe(
+        instant.getTime()
+      );
+    });
+
+    it("formats with format tokens", () => {
+      expect(
+        parsePlainDateTime("2024-03-21T14:00").format("dddd HH:mm", {
+          locale: "vi-VN",
+        })
+      ).toBe("Thứ Năm 14:00");
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import {
+  calendarMonthGrid,
+  each,
+  eachDayOfInterval,
+  eachHour,
+  eachMonth,
+  eachWeek,
+  eachWeekendOfMonth,
+  interval,
+} from "../src";
+
+const iso = (dates: Iterable<Date>) =>
+  [...dates].map((date) => date.toISOString());
+
+describe("Range iteration", () => {
+  describe("each", () => {
+    it("yields local midnights across DST", () => {
+      expect(
+        iso(
+          each("day", "2024-03-09T12:00:00Z", "2024-03-12T03:00:00Z", {
+            timeZone: "America/New_York",
+          })
+        )
+      ).toEqual([
+        "2024-03-09T05:00:00.000Z",
+        "2024-03-10T05:00:00.000Z",
+        "2024-03-11T04:00:00.000Z",
+      ]);
+    });
+
+    it("starts a day with a skipped midnight at the first local time", () => {
+      // Chile moves from 00:00 to 01:00 on 2024-09-08
+      expect(
+        iso(
+          each("day", "2024-09-07T12:00:00Z", "2024-09-09T12:00:00Z", {
+            timeZone: "America/Santiago",
+          })
+        )
+      ).toEqual([
+        "2024-09-07T04:00:00.000Z",
+        "2024-09-08T04:00:00.000Z",
+        "2024-09-09T03:00:00.000Z",
+      ]);
+    });
+
+    it("is lazy for long ranges", () => {
+      const days = each("day", 0, 8.64e15);
+      expect(days.next().value?.toISOString()).toBe("1970-01-01T00:00:00.000Z");
+    });
+
+    it("yields nothing for invalid or reversed ranges", () => {
+      expect([...each("day", "invalid", "2024-01-01")]).toEqual([]);
+      expect([...each("day", "2024-01-02", "2024-01-01")]).toEqual([]);
+    });
+
+    it("rejects invalid steps when called", () => {
+      expect(() => each("day", 0, 1, { step: 0 })).toThrow(RangeError);
+      expect(() => eachHour(0, 1, { step: 1.5 })).toThrow(RangeError);
+    });
+  });
+
+  describe("Unit helpers", () => {
+    it("steps hours", () => {
+      expect(
+        iso(
+          eachHour("2024-03-21T00:00:00Z", "2024-03-22T00:00:00Z", { step: 6 })
+        )
+      ).toEqual([
+        "2024-03-21T00:00:00.000Z",
+        "2024-03-21T06:00:00.000Z",
+        "2024-03-21T12:00:00.000Z",
+        "2024-03-21T18:00:00.000Z",
+        "2024-03-22T00:00:00.000Z",
+      ]);
+    });
+
+    it("yields week and month starts", () => {
+      expect(
+        iso(
+          eachWeek("2024-03-06T00:00:00Z", "2024-03-20T00:00:00Z", {
+            weekStartsOn: 1,
+          })
+        )
+      ).toEqual([
+        "2024-03-04T00:00:00.000Z",
+        "2024-03-11T00:00:00.000Z",
+        "2024-03-18T00:00:00.000Z",
+      ]);
+      expect(
+        iso(eachMonth("2024-01-31T12:00:00Z", "2024-03-31T00:00:00Z"))
+      ).toEqual([
+        "2024-01-01T00:00:00.000Z",
+        "2024-02-01T00:00:00.000Z",
+        "2024-03-01T00:00:00.000Z",
+      ]);
+    });
+
+    it("covers the days of an interval", () => {
+      const march = interval("2024-03-01T00:00:00Z", "2024-03-03T00:00:00Z");
+      expect([...eachDayOfInterval(march)]).toHaveLength(2);
+      const closed = interval("2024-03-01T00:00:00Z", "2024-03-03T00:00:00Z", {
+        bounds: "[]",
+      });
+      expect([...eachDayOfInterval(closed)]).toHaveLength(3);
+    });
+  });
+
+  describe("eachWeekendOfMonth", () => {
+    it("yields weekend days", () => {
+      const weekend = iso(eachWeekendOfMonth(2024, 3));
+      expect(weekend).toHaveLength(10);
+      expect(weekend[0]).toBe("2024-03-02T00:00:00.000Z");
+      expect(weekend[9]).toBe("2024-03-31T00:00:00.000Z");
+    });
+
+    it("supports other weekends and timezones", () => {
+      const gulf = iso(
+        eachWeekendOfMonth(2024, 3, { weekend: [5, 6], timeZone: "Asia/Dubai" })
+      );
+      expect(gulf).toHaveLength(10);
+      expect(gulf[0]).toBe("2024-02-29T20:00:00.000Z");
+    });
+
+    it("rejects invalid months", () => {
+      expect(() => eachWeekendOfMonth(2024, 13)).toThrow(RangeError);
+    });
+  });
+
+  describe("calendarMonthGrid", () => {
+    it("builds six weeks", () => {
+      const grid = calendarMonthGrid(2024, 3);
+      expect(grid).toHaveLength(6);
+      grid.forEach((week) => expect(week).toHaveLength(7));
+      expect(grid[0][0].toString()).toBe("2024-02-25");
+      expect(grid[0][5].toString()).toBe("2024-03-01");
+      expect(grid[5][6].toString()).toBe("2024-04-06");
+    });
+
+    it("starts weeks on the given day or the locale's", () => {
+      expect(
+        calendarMonthGrid(2024, 3, { weekStartsOn: 1 })[0][0].toString()
+      ).toBe("2024-02-26");
+      expect(
+        calendarMonthGrid(2024, 3, { locale: "de-DE" })[0][0].toString()
+      ).toBe("2024-02-26");
+      // September 2024 starts on a Sunday
+      expect(calendarMonthGrid(2024, 9)[0][0].toString()).toBe("2024-09-01");
+    });
+
+    it("rejects invalid months", () => {
+      expect(() => calendarMonthGrid(2024, 0)).toThrow(RangeError);
+    });
+  });
+});
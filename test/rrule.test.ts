@@ -0,0 +1,329 @@
+import { describe, expect, it } from "vitest";
+import { RRule, parseRRule, rrule } from "../src";
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+function take(rule: RRule, n: number): string[] {
+  const result: Date[] = [];
+  for (const date of rule) {
+    if (result.length === n) {
+      break;
+    }
+    result.push(date);
+  }
+  return iso(result);
+}
+
+/** Local dates of occurrences, for the RFC 5545 examples */
+function days(rule: RRule, n: number): string[] {
+  return take(rule, n).map((date) => date.slice(0, 10));
+}
+
+describe("RRule", () => {
+  describe("Expansion", () => {
+    it("keeps the wall-clock time across DST", () => {
+      const meeting = rrule({
+        freq: "WEEKLY",
+        dtstart: "2024-03-04T14:00:00Z",
+        timeZone: "America/New_York",
+        count: 3,
+      });
+      // 09:00 EST, then 09:00 EDT
+      expect(iso([...meeting])).toEqual([
+        "2024-03-04T14:00:00.000Z",
+        "2024-03-11T13:00:00.000Z",
+        "2024-03-18T13:00:00.000Z",
+      ]);
+    });
+
+    it("steps sub-daily frequencies in elapsed time", () => {
+      const hourly = rrule({
+        freq: "HOURLY",
+        dtstart: "2024-03-10T05:00:00Z",
+        timeZone: "America/New_York",
+      });
+      // 00:00, 01:00, 03:00 and 04:00 local: the 02:00 hour does not exist
+      expect(take(hourly, 4)).toEqual([
+        "2024-03-10T05:00:00.000Z",
+        "2024-03-10T06:00:00.000Z",
+        "2024-03-10T07:00:00.000Z",
+        "2024-03-10T08:00:00.000Z",
+      ]);
+    });
+
+    it("filters sub-daily frequencies on local fields", () => {
+      const rule = parseRRule(
+        "DTSTART;TZID=America/New_York:19970902T090000\nRRULE:FREQ=MINUTELY;INTERVAL=20;BYHOUR=9,10"
+      );
+      expect(
+        take(rule, 7).map((date) =>
+          new Date(date).toLocaleString("en-GB", {
+            timeZone: "America/New_York",
+          })
+        )
+      ).toEqual([
+        "02/09/1997, 09:00:00",
+        "02/09/1997, 09:20:00",
+        "02/09/1997, 09:40:00",
+        "02/09/1997, 10:00:00",
+        "02/09/1997, 10:20:00",
+        "02/09/1997, 10:40:00",
+        "03/09/1997, 09:00:00",
+      ]);
+    });
+
+    it("supports BYDAY ordinals", () => {
+      const lastFriday = parseRRule(
+        "DTSTART:20240126T100000Z\nRRULE:FREQ=MONTHLY;BYDAY=-1FR"
+      );
+      expect(days(lastFriday, 3)).toEqual([
+        "2024-01-26",
+        "2024-02-23",
+        "2024-03-29",
+      ]);
+
+      const thanksgiving = parseRRule(
+        "DTSTART:20241128T120000Z\nRRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH"
+      );
+      expect(days(thanksgiving, 3)).toEqual([
+        "2024-11-28",
+        "2025-11-27",
+        "2026-11-26",
+      ]);
+    });
+
+    it("supports BYSETPOS", () => {
+      const lastWorkday = parseRRule(
+        "DTSTART:20240101T170000Z\nRRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1"
+      );
+      expect(days(lastWorkday, 3)).toEqual([
+        "2024-01-31",
+        "2024-02-29",
+        "2024-03-29",
+      ]);
+    });
+
+    it("supports BYMONTHDAY and skips missing days", () => {
+      expect(
+        days(parseRRule("DTSTART:20240131T000000Z\nRRULE:FREQ=MONTHLY"), 3)
+      ).toEqual(["2024-01-31", "2024-03-31", "2024-05-31"]);
+      expect(
+        days(
+          parseRRule(
+            "DTSTART:20240101T000000Z\nRRULE:FREQ=MONTHLY;BYMONTHDAY=-1"
+          ),
+          3
+        )
+      ).toEqual(["2024-01-31", "2024-02-29", "2024-03-31"]);
+
+      const friday13 = parseRRule(
+        "DTSTART:19970902T090000Z\nRRULE:FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13"
+      );
+      expect(days(friday13, 5)).toEqual([
+        "1998-02-13",
+        "1998-03-13",
+        "1998-11-13",
+        "1999-08-13",
+        "2000-10-13",
+      ]);
+    });
+
+    it("supports BYYEARDAY and BYWEEKNO", () => {
+      const yearDays = parseRRule(
+        "DTSTART:19970101T090000Z\nRRULE:FREQ=YEARLY;INTERVAL=3;COUNT=10;BYYEARDAY=1,100,200"
+      );
+      expect(days(yearDays, 10)).toEqual([
+        "1997-01-01",
+        "1997-04-10",
+        "1997-07-19",
+        "2000-01-01",
+        "2000-04-09",
+        "2000-07-18",
+        "2003-01-01",
+        "2003-04-10",
+        "2003-07-19",
+        "2006-01-01",
+      ]);
+
+      const week20 = parseRRule(
+        "DTSTART:19970512T090000Z\nRRULE:FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO"
+      );
+      expect(days(week20, 3)).toEqual([
+        "1997-05-12",
+        "1998-05-11",
+        "1999-05-17",
+      ]);
+    });
+
+    it("honours WKST", () => {
+      const rule = (wkst: string) =>
+        parseRRule(
+          `DTSTART:19970805T090000Z\nRRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=${wkst}`
+        );
+      expect(days(rule("MO"), 4)).toEqual([
+        "1997-08-05",
+        "1997-08-10",
+        "1997-08-19",
+        "1997-08-24",
+      ]);
+      expect(days(rule("SU"), 4)).toEqual([
+        "1997-08-05",
+        "1997-08-17",
+        "1997-08-19",
+        "1997-08-31",
+      ]);
+    });
+
+    it("stops at UNTIL inclusively", () => {
+      const rule = rrule({
+        freq: "DAILY",
+        dtstart: "2024-01-01T09:00:00Z",
+        until: "2024-01-03T09:00:00Z",
+      });
+      expect([...rule]).toHaveLength(3);
+    });
+
+    it("applies EXDATE and RDATE", () => {
+      const rule = parseRRule(
+        [
+          "DTSTART;TZID=Europe/Berlin:20240101T090000",
+          "RRULE:FREQ=DAILY;COUNT=3",
+          "EXDATE;TZID=Europe/Berlin:20240102T090000",
+          "RDATE:20240110T120000Z",
+        ].join("\n")
+      );
+      expect(iso([...rule])).toEqual([
+        "2024-01-01T08:00:00.000Z",
+        "2024-01-03T08:00:00.000Z",
+        "2024-01-10T12:00:00.000Z",
+      ]);
+    });
+
+    it("skips a DTSTART that does not match the rule", () => {
+      const mondays = rrule({
+        freq: "WEEKLY",
+        dtstart: "2024-03-03T09:00:00Z",
+        byDay: ["MO"],
+      });
+      expect(take(mondays, 1)).toEqual(["2024-03-04T09:00:00.000Z"]);
+    });
+  });
+
+  describe("Queries", () => {
+    const daily = rrule({ freq: "DAILY", dtstart: "2024-01-01T09:00:00Z" });
+
+    it("finds occurrences between dates", () => {
+      expect(
+        iso(daily.between("2024-01-02T09:00:00Z", "2024-01-04T09:00:00Z"))
+      ).toEqual(["2024-01-03T09:00:00.000Z"]);
+      expect(
+        daily.between("2024-01-02T09:00:00Z", "2024-01-04T09:00:00Z", true)
+      ).toHaveLength(3);
+    });
+
+    it("finds the occurrence after or before a date", () => {
+      expect(daily.after("2024-06-01T09:00:00Z")?.toISOString()).toBe(
+        "2024-06-02T09:00:00.000Z"
+      );
+      expect(daily.after("2024-06-01T09:00:00Z", true)?.toISOString()).toBe(
+        "2024-06-01T09:00:00.000Z"
+      );
+      expect(daily.before("2024-06-01T09:00:00Z")?.toISOString()).toBe(
+        "2024-05-31T09:00:00.000Z"
+      );
+      expect(daily.before("2023-12-31T00:00:00Z")).toBeNull();
+      const once = rrule({ freq: "DAILY", dtstart: 0, count: 1 });
+      expect(once.after(0)).toBeNull();
+    });
+
+    it("queries sub-daily rules years after DTSTART", () => {
+      const minutely = parseRRule(
+        "DTSTART:20000101T000000Z\nRRULE:FREQ=MINUTELY;INTERVAL=7"
+      );
+      const query = new Date("2024-01-01T00:00:00Z");
+      const after = minutely.after(query) as Date;
+      const before = minutely.before(query) as Date;
+      expect(after.getTime() - before.getTime()).toBe(7 * 60_000);
+      expect(before.getTime()).toBeLessThan(query.getTime());
+      expect(after.getTime()).toBeGreaterThan(query.getTime());
+      expect((after.getTime() - Date.UTC(2000, 0, 1)) % (7 * 60_000)).toBe(0);
+      expect(iso(minutely.between(query, "2024-01-01T00:20:00Z"))).toHaveLength(
+        3
+      );
+    });
+
+    it("finds sparse occurrences long before the query", () => {
+      const januaryMornings = rrule({
+        freq: "HOURLY",
+        dtstart: "2000-01-01T09:00:00Z",
+        byMonth: [1],
+        byHour: [9],
+      });
+      expect(
+        januaryMornings.before("2024-06-01T00:00:00Z")?.toISOString()
+      ).toBe("2024-01-31T09:00:00.000Z");
+      expect(januaryMornings.after("2024-06-01T00:00:00Z")?.toISOString()).toBe(
+        "2025-01-01T09:00:00.000Z"
+      );
+      const monthly = rrule({
+        freq: "MONTHLY",
+        dtstart: "2000-01-15T09:00:00Z",
+        interval: 5,
+      });
+      expect(monthly.after("2024-01-01T00:00:00Z")?.toISOString()).toBe(
+        "2024-03-15T09:00:00.000Z"
+      );
+    });
+
+    it("walks rules with COUNT from DTSTART", () => {
+      const limited = rrule({
+        freq: "DAILY",
+        dtstart: "2024-01-01T09:00:00Z",
+        count: 10,
+      });
+      expect(limited.after("2024-01-05T00:00:00Z")?.toISOString()).toBe(
+        "2024-01-05T09:00:00.000Z"
+      );
+      expect(limited.after("2024-01-10T09:00:00Z")).toBeNull();
+      expect(limited.before("2025-01-01T00:00:00Z")?.toISOString()).toBe(
+        "2024-01-10T09:00:00.000Z"
+      );
+    });
+  });
+
+  describe("toString", () => {
+    it("round-trips through parseRRule", () => {
+      const text = [
+        "DTSTART;TZID=America/New_York:20240304T090000",
+        "RRULE:FREQ=MONTHLY;INTERVAL=2;UNTIL=20241231T235959Z;BYDAY=-1FR;WKST=SU",
+        "EXDATE;TZID=America/New_York:20240329T090000",
+      ].join("\n");
+      const rule = parseRRule(text);
+      expect(rule.toString()).toBe(text);
+      expect(rule.timeZone).toBe("America/New_York");
+      expect(iso([...parseRRule(rule.toString())])).toEqual(iso([...rule]));
+    });
+
+    it("writes UTC rules with a Z", () => {
+      expect(
+        rrule({ freq: "YEARLY", dtstart: "2024-02-29T00:00:00Z" }).toString()
+      ).toBe("DTSTART:20240229T000000Z\nRRULE:FREQ=YEARLY");
+    });
+  });
+
+  describe("Validation", () => {
+    it("rejects invalid rules", () => {
+      expect(() => parseRRule("FREQ=FORTNIGHTLY")).toThrow(RangeError);
+      expect(() => parseRRule("FREQ=DAILY;COUNT=2;UNTIL=20240101")).toThrow(
+        RangeError
+      );
+      expect(() => parseRRule("FREQ=WEEKLY;BYDAY=1MO")).toThrow(RangeError);
+      expect(() => parseRRule("FREQ=MONTHLY;BYMONTH=13")).toThrow(RangeError);
+      expect(() => parseRRule("FREQ=DAILY;BYFOO=1")).toThrow(RangeError);
+      expect(() => parseRRule("DTSTART:20240101T000000Z")).toThrow(RangeError);
+      expect(() => new RRule({ freq: "DAILY", dtstart: "invalid" })).toThrow(
+        RangeError
+      );
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+import {
+  WorkSchedule,
+  businessCalendar,
+  duration,
+  plainTime,
+  workSchedule,
+} from "../src";
+
+describe("WorkSchedule", () => {
+  const HOUR = 3_600_000;
+  const day: [string, string][] = [
+    ["09:00", "12:30"],
+    ["13:30", "17:30"],
+  ];
+  // Mon-Fri 09:00-17:30 in Berlin with a lunch break
+  const berlin = workSchedule({
+    hours: { 1: day, 2: day, 3: day, 4: day, 5: day },
+    exceptions: { "2024-12-24": [["09:00", "12:00"]], "2024-12-25": [] },
+    timeZone: "Europe/Berlin",
+  });
+
+  describe("isWithinWorkingHours", () => {
+    it("checks intervals in the schedule timezone", () => {
+      expect(berlin.isWithinWorkingHours("2024-03-21T08:00:00Z")).toBe(true);
+      // 12:45 in Berlin is lunch
+      expect(berlin.isWithinWorkingHours("2024-03-21T11:45:00Z")).toBe(false);
+      expect(berlin.isWithinWorkingHours("2024-03-21T12:30:00Z")).toBe(true);
+      // Closing time is exclusive
+      expect(berlin.isWithinWorkingHours("2024-03-21T16:30:00Z")).toBe(false);
+      expect(berlin.isWithinWorkingHours("2024-03-23T10:00:00Z")).toBe(false);
+    });
+
+    it("uses exception dates", () => {
+      expect(berlin.isWithinWorkingHours("2024-12-24T11:30:00Z")).toBe(false);
+      expect(berlin.isWithinWorkingHours("2024-12-25T10:00:00Z")).toBe(false);
+    });
+
+    it("returns false for invalid dates", () => {
+      expect(berlin.isWithinWorkingHours("invalid")).toBe(false);
+    });
+  });
+
+  describe("nextOpening", () => {
+    it("returns the date while open", () => {
+      expect(berlin.nextOpening("2024-03-21T08:00:00Z").toISOString()).toBe(
+        "2024-03-21T08:00:00.000Z"
+      );
+    });
+
+    it("finds the end of lunch and the next working day", () => {
+      expect(berlin.nextOpening("2024-03-21T11:45:00Z").toISOString()).toBe(
+        "2024-03-21T12:30:00.000Z"
+      );
+      // Friday evening to Monday 09:00 CEST, after the DST change
+      expect(berlin.nextOpening("2024-03-29T17:00:00Z").toISOString()).toBe(
+        "2024-04-01T07:00:00.000Z"
+      );
+    });
+
+    it("returns an invalid date for schedules without working time", () => {
+      const closed = workSchedule({ hours: {} });
+      expect(closed.nextOpening("2024-03-21T00:00:00Z").getTime()).toBeNaN();
+    });
+  });
+
+  describe("addWorkingTime", () => {
+    it("skips closed hours", () => {
+      // Thursday 16:00 + 4 working hours = Friday 11:30
+      expect(
+        berlin.addWorkingTime("2024-03-21T15:00:00Z", 4 * HOUR).toISOString()
+      ).toBe("2024-03-22T10:30:00.000Z");
+      // 11:00 + 2 hours crosses lunch and ends at 14:00
+      expect(
+        berlin.addWorkingTime("2024-03-21T10:00:00Z", 2 * HOUR).toISOString()
+      ).toBe("2024-03-21T13:00:00.000Z");
+    });
+
+    it("accepts durations", () => {
+      expect(
+        berlin
+          .addWorkingTime("2024-03-21T15:00:00Z", duration({ hours: 4 }))
+          .toISOString()
+      ).toBe("2024-03-22T10:30:00.000Z");
+      expect(
+        berlin
+          .addWorkingTime("2024-03-21T15:00:00Z", duration({ months: 1 }))
+          .getTime()
+      ).toBeNaN();
+    });
+
+    it("stays on wall-clock hours across DST", () => {
+      // Friday 16:30 CET + 4 hours = Monday 12:00 CEST
+      expect(
+        berlin.addWorkingTime("2024-03-29T15:30:00Z", 4 * HOUR).toISOString()
+      ).toBe("2024-04-01T10:00:00.000Z");
+    });
+
+    it("goes back for negative amounts", () => {
+      // Monday 10:00 CEST - 2 hours = Friday 16:30 CET
+      expect(
+        berlin.addWorkingTime("2024-04-01T08:00:00Z", -2 * HOUR).toISOString()
+      ).toBe("2024-03-29T15:30:00.000Z");
+    });
+
+    it("ends at closing time instead of the next opening", () => {
+      expect(
+        berlin.addWorkingTime("2024-03-21T15:30:00Z", HOUR).toISOString()
+      ).toBe("2024-03-21T16:30:00.000Z");
+    });
+
+    it("handles invalid dates gracefully", () => {
+      expect(berlin.addWorkingTime("invalid", HOUR).getTime()).toBeNaN();
+    });
+  });
+
+  describe("workingTimeBetween", () => {
+    it("sums working time between instants", () => {
+      // Friday 09:00 CET to Monday 09:00 CEST is one working day
+      expect(
+        berlin.workingTimeBetween(
+          "2024-03-29T08:00:00Z",
+          "2024-04-01T07:00:00Z"
+        )
+      ).toBe(7.5 * HOUR);
+      expect(
+        berlin.workingTimeBetween(
+          "2024-04-01T07:00:00Z",
+          "2024-03-29T08:00:00Z"
+        )
+      ).toBe(-7.5 * HOUR);
+    });
+
+    it("inverts addWorkingTime", () => {
+      const start = "2024-03-21T15:00:00Z";
+      const end = berlin.addWorkingTime(start, 100 * HOUR);
+      expect(berlin.workingTimeBetween(start, end)).toBe(100 * HOUR);
+    });
+
+    it("counts real elapsed time for shifts crossing a DST change", () => {
+      const night = workSchedule({
+        hours: { 0: [["00:00", "06:00"]] },
+        timeZone: "Europe/Berlin",
+      });
+      // Clocks jump from 02:00 to 03:00 on Sunday 2024-03-31
+      expect(
+        night.workingTimeBetween("2024-03-30T00:00:00Z", "2024-04-01T00:00:00Z")
+      ).toBe(5 * HOUR);
+    });
+
+    it("returns NaN for invalid dates", () => {
+      expect(berlin.workingTimeBetween("invalid", new Date())).toBeNaN();
+    });
+  });
+
+  describe("Configuration", () => {
+    it("closes on non-business days of a calendar", () => {
+      const withHolidays = workSchedule({
+        hours: { 1: day, 2: day, 3: day, 4: day, 5: day },
+        calendar: businessCalendar({ holidays: ["2024-04-01"] }),
+        timeZone: "Europe/Berlin",
+      });
+      expect(
+        withHolidays.nextOpening("2024-03-29T17:00:00Z").toISOString()
+      ).toBe("2024-04-02T07:00:00.000Z");
+    });
+
+    it("accepts plain times and midnight as an end", () => {
+      const allDay = workSchedule({
+        hours: { 6: [[plainTime({ hour: 20 }), "24:00"]] },
+      });
+      expect(allDay.isWithinWorkingHours("2024-03-23T23:59:59Z")).toBe(true);
+      expect(allDay.isWithinWorkingHours("2024-03-24T00:00:00Z")).toBe(false);
+    });
+
+    it("accepts midnight with seconds as an end", () => {
+      const allDay = workSchedule({ hours: { 6: [["20:00", "24:00:00"]] } });
+      expect(allDay.isWithinWorkingHours("2024-03-23T23:59:59Z")).toBe(true);
+      expect(allDay.isWithinWorkingHours("2024-03-24T00:00:00Z")).toBe(false);
+    });
+
+    it("rejects empty and overlapping intervals", () => {
+      expect(() =>
+        workSchedule({ hours: { 1: [["17:00", "09:00"]] } })
+      ).toThrow(RangeError);
+      expect(
+        () =>
+          new WorkSchedule({
+            hours: {
+              1: [
+                ["09:00", "13:00"],
+                ["12:00", "17:00"],
+              ],
+            },
+          })
+      ).toThrow(RangeError);
+    });
+
+    it("rejects exception dates that do not exist", () => {
+      for (const date of ["2024-13-01", "2024-02-30", "12-24"]) {
+        expect(() =>
+          workSchedule({ hours: {}, exceptions: { [date]: [] } })
+        ).toThrow(RangeError);
+      }
+    });
+  });
+});